@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+
+/**
+ * MCP Zettelkasten admin CLI
+ *
+ * Maintenance commands run against the same storage directory and semantic
+ * index as the servers, configured by the same environment variables.
+ *
+ *   mcp-zk-admin reindex [--scope missing|all] [--dry-run] [--purge-orphans] ...
+ *   mcp-zk-admin keys create --name <name> --scopes read [write admin] [--rate-limit n]
+ *   mcp-zk-admin keys list
+ *   mcp-zk-admin keys revoke <id>
+ *
+ * reindex works on one vault: --vault, else MCP_VAULT, else `default`. API keys
+ * are for the HTTP server and valid in every vault.
+ */
+
+import path from 'path';
+import fs from 'fs';
+import dotenv from 'dotenv';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+
+// Shared modules
+import { expandHomeDir, getDefaultStorageDir } from './shared/utils.js';
+import { createLogger } from './shared/logger.js';
+import { loadLinkTypeConfig } from './shared/link-types.js';
+import { SqliteNoteRepository, openSqliteRepository } from './shared/repository.js';
+import { SemanticIndex, createSemanticIndex } from './shared/semantic-index.js';
+import { DEFAULT_VAULT, parseVaultId } from './shared/vaults.js';
+import { createApiKey, listApiKeys, revokeApiKey, parseScopes, formatApiKeys } from './shared/api-keys.js';
+import { SemanticSync } from './shared/sync.js';
+import {
+  DEFAULT_REINDEX_BATCH_SIZE, parseReindexOptions, reindexNotes, formatReindexReport
+} from './shared/reindex.js';
+
+// Load environment variables with absolute path
+dotenv.config({ path: '/opt/prj/mcp-zettelkasten-notes-mem0/.env' });
+
+// Logs go to stderr so stdout only carries the command output
+const logger = createLogger('stdio');
+
+interface Backends {
+  repo: SqliteNoteRepository;
+  index: SemanticIndex;
+  sync: SemanticSync;
+}
+
+/**
+ * Storage directory configured in the environment, created if missing
+ * @param {string} [storageDir] - Overrides MCP_STORAGE_DIR
+ * @returns {string}
+ */
+function dataDirectory(storageDir?: string): string {
+  const dataDir = expandHomeDir(storageDir || process.env.MCP_STORAGE_DIR || getDefaultStorageDir());
+  fs.mkdirSync(dataDir, { recursive: true });
+  return dataDir;
+}
+
+/**
+ * Open the notes database alone, for commands that need no semantic index
+ * @param {string} [storageDir] - Overrides MCP_STORAGE_DIR
+ * @returns {Promise<SqliteNoteRepository>}
+ */
+async function openDatabase(storageDir?: string): Promise<SqliteNoteRepository> {
+  return openSqliteRepository(path.join(dataDirectory(storageDir), 'notes-db.sqlite'));
+}
+
+/**
+ * Open the notes database and the semantic index configured in the environment
+ * @param {string} [storageDir] - Overrides MCP_STORAGE_DIR
+ * @param {string} [vault] - Overrides MCP_VAULT
+ * @returns {Promise<Backends>}
+ * @throws {Error} If the API key required by the Mem0 mode is missing, or the vault does not exist
+ */
+async function openBackends(storageDir?: string, vault?: string): Promise<Backends> {
+  const vaultId = parseVaultId(vault || process.env.MCP_VAULT || DEFAULT_VAULT);
+  const localMode = process.env.MCP_LOCAL_MODE === 'true';
+  const simpleMode = process.env.MEM0_SIMPLE_MODE === 'true';
+  const mem0ApiKey = process.env.MEM0_API_KEY;
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  if (!localMode && simpleMode && !mem0ApiKey) {
+    throw new Error('Missing Mem0 API Key for simple mode: set MEM0_API_KEY');
+  }
+  if (!localMode && !simpleMode && !openaiApiKey) {
+    throw new Error('Missing OpenAI API Key for advanced mode: set OPENAI_API_KEY');
+  }
+
+  const dataDir = dataDirectory(storageDir);
+  // Link types are validated when filters name them
+  loadLinkTypeConfig(expandHomeDir(process.env.MCP_LINK_TYPES_FILE || path.join(dataDir, 'link-types.json')));
+
+  const root = await openSqliteRepository(path.join(dataDir, 'notes-db.sqlite'));
+  if (!(await root.getVault(vaultId))) {
+    await root.close();
+    throw new Error(`Vault not found: ${vaultId}`);
+  }
+  const repo = root.forVault(vaultId);
+  const index = createSemanticIndex(repo.db, {
+    localMode,
+    simpleMode,
+    mem0ApiKey,
+    openaiApiKey,
+    dataDir,
+    userId: process.env.MCP_USER_ID || 'zettelkasten_mcp',
+    timeoutMs: process.env.MCP_MEM0_TIMEOUT ? parseInt(process.env.MCP_MEM0_TIMEOUT) : 5000
+  }, vaultId);
+  return { repo, index, sync: new SemanticSync(repo, index, logger) };
+}
+
+async function main(): Promise<void> {
+  await yargs(hideBin(process.argv))
+    .scriptName('mcp-zk-admin')
+    .option('storage-dir', { type: 'string', describe: 'Storage directory (default: MCP_STORAGE_DIR or ~/.mcp-servers/mcp-zettelkasten-notes-mem0)' })
+    .option('vault', { type: 'string', describe: `Vault to work on (default: MCP_VAULT or ${DEFAULT_VAULT})` })
+    .command(
+      'reindex',
+      'Rebuild the semantic index from the notes table',
+      y => y
+        .option('scope', { choices: ['missing', 'all'], default: 'missing', describe: 'Push only notes missing from the index, or every selected note' })
+        .option('ids', { type: 'string', array: true, describe: 'Only these note IDs' })
+        .option('tags', { type: 'string', array: true, describe: 'Only notes with these tags (archived notes are then skipped)' })
+        .option('tag-mode', { choices: ['any', 'all'], describe: 'Whether a note needs any or all of the tags' })
+        .option('created-after', { type: 'string', describe: 'Only notes created at or after this ISO 8601 date' })
+        .option('created-before', { type: 'string', describe: 'Only notes created before this ISO 8601 date' })
+        .option('batch-size', { type: 'number', default: DEFAULT_REINDEX_BATCH_SIZE, describe: 'Notes pushed concurrently' })
+        .option('purge-orphans', { type: 'boolean', default: false, describe: 'Delete memories that belong to no existing note' })
+        .option('dry-run', { type: 'boolean', default: false, describe: 'Only report what would be done' })
+        .option('json', { type: 'boolean', default: false, describe: 'Print the report as JSON' }),
+      async argv => {
+        const options = parseReindexOptions({
+          scope: argv.scope,
+          ids: argv.ids,
+          tags: argv.tags,
+          tag_mode: argv['tag-mode'],
+          created_after: argv['created-after'],
+          created_before: argv['created-before'],
+          batch_size: argv['batch-size'],
+          purge_orphans: argv['purge-orphans'],
+          dry_run: argv['dry-run']
+        });
+        const { repo, index, sync } = await openBackends(argv['storage-dir'], argv.vault);
+        try {
+          const report = await reindexNotes(repo, index, sync, {
+            ...options,
+            onProgress: ({ processed, total, pushed, failed }) =>
+              logger.info(`Reindex progress: ${processed}/${total} (pushed ${pushed}, queued ${failed})`)
+          });
+          console.log(argv.json ? JSON.stringify(report, null, 2) : formatReindexReport(report, index.name));
+          if (report.failed) {
+            process.exitCode = 1;
+          }
+        } finally {
+          await repo.close();
+        }
+      }
+    )
+    .command(
+      'keys',
+      'Manage the API keys of the HTTP server',
+      y => y
+        .command(
+          'create',
+          'Mint a key; it is printed once and cannot be shown again',
+          k => k
+            .option('name', { type: 'string', demandOption: true, describe: 'What the key is for, e.g. the client using it' })
+            .option('scopes', { type: 'string', array: true, demandOption: true, describe: 'read, write (implies read) and/or admin (everything)' })
+            .option('rate-limit', { type: 'number', describe: 'Requests per rate limit window (default: MCP_RATE_MAX)' }),
+          async argv => {
+            const scopes = parseScopes(argv.scopes.flatMap(scope => scope.split(',')).filter(Boolean));
+            const rateLimit = argv['rate-limit'];
+            if (rateLimit !== undefined && (!Number.isInteger(rateLimit) || rateLimit < 1)) {
+              throw new Error('Invalid rate limit: give a positive integer');
+            }
+            const repo = await openDatabase(argv['storage-dir']);
+            try {
+              const { key, record } = await createApiKey(repo.db, { name: argv.name, scopes, rateLimit });
+              logger.info(`Created API key ${record.id} (${record.scopes.join(', ')})`);
+              console.log(key);
+            } finally {
+              await repo.close();
+            }
+          }
+        )
+        .command(
+          'list',
+          'List keys, revoked ones included',
+          k => k.option('json', { type: 'boolean', default: false, describe: 'Print the keys as JSON' }),
+          async argv => {
+            const repo = await openDatabase(argv['storage-dir']);
+            try {
+              const keys = await listApiKeys(repo.db);
+              console.log(argv.json ? JSON.stringify(keys, null, 2) : formatApiKeys(keys));
+            } finally {
+              await repo.close();
+            }
+          }
+        )
+        .command(
+          'revoke <id>',
+          'Revoke a key; requests using it are refused from then on',
+          k => k.positional('id', { type: 'string', demandOption: true, describe: 'Key ID, as shown by keys list' }),
+          async argv => {
+            const repo = await openDatabase(argv['storage-dir']);
+            try {
+              const revoked = await revokeApiKey(repo.db, argv.id);
+              console.log(revoked ? `Revoked API key ${argv.id}` : `API key ${argv.id} was already revoked`);
+            } finally {
+              await repo.close();
+            }
+          }
+        )
+        .demandCommand(1, 'Specify a keys command: create, list or revoke')
+    )
+    .demandCommand(1, 'Specify a command')
+    .strict()
+    .help()
+    .parseAsync();
+}
+
+main()
+  // The Mem0 clients can keep handles open after the command is done
+  .then(() => process.exit())
+  .catch(err => {
+    logger.error(err.message);
+    process.exit(1);
+  });
@@ -7,8 +7,9 @@
  * | Primary store     | **Mem0 OSS** (semantic vector)   |
  * | Local backup      | **SQLite** (WAL, durable)         |
  * | Web framework     | **Express**                       |
+ * | MCP transports    | SDK Streamable HTTP (`/mcp`), legacy SSE (`/sse`) |
  * | Logging           | **Pino**                          |
- * | Security          | Helmet, CORS, rate‑limit          |
+ * | Security          | Helmet, CORS, API keys, per-key rate‑limit |
  * | Resilience        | Timeouts, retry queue, graceful shutdown |
  * | Observability     | `/health` JSON endpoint           |
  *
@@ -21,19 +22,28 @@
 
 import express, { Request, Response, NextFunction, RequestHandler } from 'express';
 import bodyParser from 'body-parser';
-import { v4 as uuidv4 } from 'uuid';
-import { Memory } from 'mem0ai/oss';
-import MemoryClient from 'mem0ai';
 import pino from 'pino';
-import sqlite3 from 'sqlite3';
-import { open, Database } from 'sqlite';
 import path from 'path';
-import os from 'os';
 import fs from 'fs';
 import helmet from 'helmet';
 import cors from 'cors';
-import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
+import { loadLinkTypeConfig } from './shared/link-types.js';
+import { NoteRepository, openSqliteRepository } from './shared/repository.js';
+import { semanticIndexFactory, isMem0Outage } from './shared/semantic-index.js';
+import { CircuitBreaker } from './shared/circuit-breaker.js';
+import { SemanticSync } from './shared/sync.js';
+import {
+  ToolContext, ToolInputError, ToolPermissionError, executeTool, auditToolCall, isNotFoundError, selectVault
+} from './shared/tools.js';
+import { AuditLog } from './shared/audit.js';
+import { NotesDatabase } from './shared/types.js';
+import { apiKeyAuth, authenticatedKey, authFailureRateLimit, keyRateLimit, API_KEY_HEADER } from './shared/auth.js';
+import { VaultContexts, DEFAULT_VAULT, VAULT_HEADER, parseVaultId } from './shared/vaults.js';
+import { mountMcpTransports, MCP_SESSION_HEADER } from './shared/mcp-http.js';
+import { httpServerInfo } from './shared/express-constants.js';
+import { toolSpec, methodologyResponse } from './shared/constants.js';
+import { expandHomeDir, getDefaultStorageDir } from './shared/utils.js';
 
 // Load environment variables from .env file with absolute path
 dotenv.config({ path: '/opt/prj/mcp-zettelkasten-notes-mem0/.env' });
@@ -53,23 +63,45 @@ dotenv.config({ path: '/opt/prj/mcp-zettelkasten-notes-mem0/.env' });
  * @property {string} mem0ApiKey - API key for Mem0
  * @property {string} mem0OrgId - Organization ID in Mem0
  * @property {string} mem0ProjectId - Project ID in Mem0
- * @property {string} [userId] - User identifier for memories
+ * @property {string} [userId] - User identifier for memories (other vaults use `userId:vault`)
+ * @property {string} [vault] - Vault used when a request selects none
  * @property {number} [port] - Port for the Express server
  * @property {string} [storageDir] - Directory path for SQLite backup
+ * @property {boolean} [localMode] - Offline embeddings and a local vector index instead of Mem0
  * @property {number} [mem0TimeoutMs] - Timeout for Mem0 API calls (ms)
+ * @property {number} [mem0BreakerThreshold] - Consecutive Mem0 failures that open the circuit breaker
+ * @property {number} [mem0BreakerCooldownMs] - How long the breaker stays open before a trial call (ms)
  * @property {number} [rateLimitWindowMs] - Rate limit window in milliseconds
- * @property {number} [rateLimitMax] - Maximum requests per window
+ * @property {number} [rateLimitMax] - Maximum requests per window, per API key without its own limit (or per IP without key)
+ * @property {number} [authFailureLimit] - Requests with a missing or invalid API key per IP and window before the IP is turned away
+ * @property {boolean} [authRequired] - Refuse requests without an API key (default true)
+ * @property {string[]} [corsOrigins] - Origins allowed to call the server from a browser; `*` allows any
+ * @property {boolean} [auditLog] - Record tool calls in the audit log (default true)
+ * @property {string[]} [auditRedact] - Argument names whose values the audit log does not store
+ * @property {number} [keepaliveMs] - Interval of keepalive comments on MCP streams (ms), 0 to disable
+ * @property {number} [sessionIdleMs] - Idle time after which an MCP session is closed (ms)
  */
 interface MCPConfig {
   mem0ApiKey?: string;
   openaiApiKey?: string;
   mem0SimpleMode?: boolean;
+  localMode?: boolean;
   userId?: string;
+  vault?: string;
   port?: number;
   storageDir?: string;
   mem0TimeoutMs?: number;
+  mem0BreakerThreshold?: number;
+  mem0BreakerCooldownMs?: number;
   rateLimitWindowMs?: number;
   rateLimitMax?: number;
+  authFailureLimit?: number;
+  authRequired?: boolean;
+  corsOrigins?: string[];
+  auditLog?: boolean;
+  auditRedact?: string[];
+  keepaliveMs?: number;
+  sessionIdleMs?: number;
 }
 
 // Configuration from environment variables
@@ -77,50 +109,71 @@ const config: MCPConfig = {
   mem0ApiKey: process.env.MEM0_API_KEY,
   openaiApiKey: process.env.OPENAI_API_KEY,
   mem0SimpleMode: process.env.MEM0_SIMPLE_MODE === 'true',
+  localMode: process.env.MCP_LOCAL_MODE === 'true',
   userId: process.env.MCP_USER_ID || 'zettelkasten_mcp',
+  vault: process.env.MCP_VAULT || DEFAULT_VAULT,
   port: process.env.PORT ? parseInt(process.env.PORT) : 8080,
   storageDir: process.env.MCP_STORAGE_DIR,
   mem0TimeoutMs: process.env.MCP_MEM0_TIMEOUT ? parseInt(process.env.MCP_MEM0_TIMEOUT) : 5000,
+  mem0BreakerThreshold: process.env.MCP_MEM0_BREAKER_THRESHOLD ? parseInt(process.env.MCP_MEM0_BREAKER_THRESHOLD) : 5,
+  mem0BreakerCooldownMs: process.env.MCP_MEM0_BREAKER_COOLDOWN ? parseInt(process.env.MCP_MEM0_BREAKER_COOLDOWN) : 30000,
   rateLimitWindowMs: process.env.MCP_RATE_WINDOW ? parseInt(process.env.MCP_RATE_WINDOW) : 15 * 60 * 1000,
-  rateLimitMax: process.env.MCP_RATE_MAX ? parseInt(process.env.MCP_RATE_MAX) : 100
+  rateLimitMax: process.env.MCP_RATE_MAX ? parseInt(process.env.MCP_RATE_MAX) : 100,
+  authFailureLimit: process.env.MCP_AUTH_FAILURE_MAX ? parseInt(process.env.MCP_AUTH_FAILURE_MAX) : 20,
+  authRequired: process.env.MCP_AUTH_REQUIRED !== 'false',
+  corsOrigins: (process.env.MCP_CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+  auditLog: process.env.MCP_AUDIT_LOG !== 'false',
+  auditRedact: (process.env.MCP_AUDIT_REDACT || '').split(',').map(name => name.trim()).filter(Boolean),
+  keepaliveMs: process.env.MCP_SSE_KEEPALIVE ? parseInt(process.env.MCP_SSE_KEEPALIVE) : 25000,
+  sessionIdleMs: process.env.MCP_SESSION_IDLE_TIMEOUT ? parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT) : 30 * 60 * 1000
 };
 
 const {
   mem0ApiKey,
   openaiApiKey,
   mem0SimpleMode = true,
+  localMode = false,
   userId = 'zettelkasten_mcp',
+  vault: defaultVault = DEFAULT_VAULT,
   port = 8080,
   storageDir,
   mem0TimeoutMs = 5000,
+  mem0BreakerThreshold = 5,
+  mem0BreakerCooldownMs = 30000,
   rateLimitWindowMs = 15 * 60 * 1000,
-  rateLimitMax = 100
+  rateLimitMax = 100,
+  authFailureLimit = 20,
+  authRequired = true,
+  corsOrigins = [],
+  auditLog = true,
+  auditRedact = [],
+  keepaliveMs = 25000,
+  sessionIdleMs = 30 * 60 * 1000
 } = config as Required<MCPConfig>;
 
-// Validate required API keys based on mode
-if (mem0SimpleMode && !mem0ApiKey) {
+// Validate required API keys based on mode (local mode needs none)
+if (!localMode && mem0SimpleMode && !mem0ApiKey) {
   console.error('[MCP] Missing Mem0 API Key for simple mode');
   console.error('[MCP] Please set MEM0_API_KEY in your .env file');
   process.exit(1);
 }
 
-if (!mem0SimpleMode && !openaiApiKey) {
+if (!localMode && !mem0SimpleMode && !openaiApiKey) {
   console.error('[MCP] Missing OpenAI API Key for advanced mode');
   console.error('[MCP] Please set OPENAI_API_KEY in your .env file');
   process.exit(1);
 }
 
-// --- Setup storage directory for SQLite ---
-const defaultDir = path.join(os.homedir(), '.mcp-servers', 'mcp-zettelkasten-notes-mem0');
-
-// Helper function to expand ~ to home directory
-function expandHomeDir(filePath: string): string {
-  if (filePath.startsWith('~/') || filePath === '~') {
-    return path.join(os.homedir(), filePath.slice(1));
-  }
-  return filePath;
+try {
+  parseVaultId(defaultVault);
+} catch (err: any) {
+  console.error(`[MCP] MCP_VAULT: ${err.message}`);
+  process.exit(1);
 }
 
+// --- Setup storage directory for SQLite ---
+const defaultDir = getDefaultStorageDir();
+
 let dbDir = process.env.MCP_STORAGE_DIR || storageDir || defaultDir;
 // Expand ~ if present in the path
 dbDir = expandHomeDir(dbDir);
@@ -133,228 +186,140 @@ const storageFile = path.join(dbDir, 'notes-db.sqlite');
 const logger = pino({ level: 'info', timestamp: pino.stdTimeFunctions.isoTime });
 
 // Log which Mem0 mode is being used
-logger.info(`[Mem0] Initialization mode: ${mem0SimpleMode ? 'SIMPLE' : 'ADVANCED'}`);
+logger.info(localMode
+  ? '[Local] Initialization mode: LOCAL (offline embeddings, no Mem0 or OpenAI calls)'
+  : `[Mem0] Initialization mode: ${mem0SimpleMode ? 'SIMPLE' : 'ADVANCED'}`);
+
+// --- Link type vocabulary ---
+const linkTypesFile = expandHomeDir(process.env.MCP_LINK_TYPES_FILE || path.join(dbDir, 'link-types.json'));
+try {
+  const customLinkTypes = loadLinkTypeConfig(linkTypesFile);
+  if (customLinkTypes.length) {
+    logger.info(`[Links] Loaded ${customLinkTypes.length} custom link type(s) from ${linkTypesFile}`);
+  }
+} catch (err: any) {
+  console.error(`[MCP] Invalid link type config ${linkTypesFile}: ${err.message}`);
+  process.exit(1);
+}
 
-// --- SQLite Initialization & Pool ---
+// --- Mem0 circuit breaker ---
 /**
- * SQLite database instance.
- * @type {Database<sqlite3.Database, sqlite3.Statement>}
+ * Shared by all Mem0 calls: while open, search and get fall back to SQLite at
+ * once and index writes are queued for retry. Reported on `/health`.
+ * @type {CircuitBreaker}
  */
-let db: Database<sqlite3.Database, sqlite3.Statement>;
+const mem0Breaker = new CircuitBreaker('Mem0', {
+  failureThreshold: mem0BreakerThreshold,
+  cooldownMs: mem0BreakerCooldownMs,
+  isFailure: isMem0Outage,
+  onStateChange: (from, to, reason) => {
+    const message = `[Mem0] Circuit ${from} -> ${to}: ${reason}`;
+    if (to === 'closed') logger.info(message);
+    else logger.warn(message);
+  }
+});
 
+// --- SQLite Initialization ---
 /**
- * Initialize SQLite with pragmas and table schema.
- * @returns {Promise<void>}
+ * Note repository backed by SQLite.
+ * @type {NoteRepository}
  */
-async function initDB(): Promise<void> {
-  db = await open({ filename: storageFile, driver: sqlite3.Database });
-  // performance optimizations
-  await db.exec('PRAGMA journal_mode=WAL;');
-  await db.exec('PRAGMA synchronous=NORMAL;');
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS notes (
-      id TEXT PRIMARY KEY,
-      title TEXT,
-      content TEXT,
-      tags TEXT,
-      links TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS retry_queue (
-      id TEXT PRIMARY KEY,
-      payload TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-  logger.info(`[SQLite] Backup ready at ${storageFile}`);
-}
+let repo: NoteRepository;
 
-// --- Mem0 Client with Timeout / Circuit Breaker ---
-/**
- * Mem0 client instance for memory operations.
- * Supports both simple and advanced initialization modes.
- */
-const memory: any = mem0SimpleMode 
-  ? new MemoryClient({ apiKey: mem0ApiKey })
-  : new Memory({
-      version: 'v1.1',
-      embedder: {
-        provider: 'openai',
-        config: {
-          apiKey: openaiApiKey,
-          model: 'text-embedding-3-small',
-        },
-      },
-      vectorStore: {
-        provider: 'memory',
-        config: {
-          collectionName: 'zettelkasten_memories',
-          dimension: 1536,
-        },
-      },
-      llm: {
-        provider: 'openai',
-        config: {
-          apiKey: openaiApiKey,
-          model: 'gpt-4o-mini',
-        },
-      },
-      historyDbPath: path.join(dbDir, 'memory-history.db'),
-    });
+/**
+ * SQLite handle, for API key lookups.
+ * @type {NotesDatabase | undefined}
+ */
+let keysDb: NotesDatabase | undefined;
 
 /**
- * Wrap a promise with a timeout.
- * @template T
- * @param {Promise<T>} promise - The promise to wrap.
- * @param {number} ms - Timeout in milliseconds.
- * @returns {Promise<T>} A promise that rejects on timeout.
+ * Tool contexts per vault: storage, index and retry queue of each vault.
+ * @type {VaultContexts}
  */
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  const timeout = new Promise<never>((_, rej) => setTimeout(() => rej(new Error('Timeout')), ms));
-  return Promise.race([promise, timeout]);
-}
+let vaults: VaultContexts;
 
 /**
- * Helper function to handle both MemoryClient and Memory search results
- * @param {any} results - Search results from either client
- * @returns {any[]} Normalized array of results
+ * Tool context of the default vault (MCP_VAULT), for requests that select none.
+ * @type {ToolContext}
  */
-function normalizeSearchResults(results: any): any[] {
-  if (Array.isArray(results)) {
-    // MemoryClient returns Memory[] directly
-    return results;
-  } else if (results && Array.isArray(results.results)) {
-    // Memory (OSS) returns SearchResult with results property
-    return results.results;
-  }
-  return [];
-}
+let ctx: ToolContext;
 
 /**
- * Sync a note to Mem0 asynchronously, with timeout.
- * @param {string} id - Note ID.
- * @param {string} title - Note title.
- * @param {string} content - Note content.
+ * Open the SQLite repository (pragmas and migrations) and wire up the tool contexts.
  * @returns {Promise<void>}
  */
-async function syncNoteToMem0(id: string, title: string, content: string): Promise<void> {
-  try {
-    await withTimeout(
-      memory.add([
-        { role: 'user', content: `Note: ${title}` },
-        { role: 'assistant', content }
-      ], { userId, metadata: { noteId: id, title } }),
-      mem0TimeoutMs
-    );
-    logger.info(`[Mem0] Synced note ${id}`);
-  } catch (err: any) {
-    logger.error(`[Mem0] Sync error for ${id}: ${err.message}`);
-    // Add to retry queue
-    await db.run('INSERT OR REPLACE INTO retry_queue (id,payload) VALUES (?,?)', 
-      id, JSON.stringify({ id, title, content }));
+async function initDB(): Promise<void> {
+  const sqlite = await openSqliteRepository(storageFile);
+  repo = sqlite;
+  keysDb = sqlite.db;
+  // One audit log for every vault
+  const audit = auditLog ? new AuditLog(sqlite.db, { redact: auditRedact, logger }) : undefined;
+  // Mem0 (simple or advanced, every call bounded by mem0TimeoutMs) or fully local, one scope per vault
+  const indexFor = semanticIndexFactory(sqlite.db, {
+    localMode, simpleMode: mem0SimpleMode, mem0ApiKey, openaiApiKey, dataDir: dbDir, userId, timeoutMs: mem0TimeoutMs,
+    breaker: mem0Breaker
+  });
+  vaults = new VaultContexts(sqlite, vaultRepo => {
+    const index = indexFor(vaultRepo.vault);
+    return {
+      repo: vaultRepo, index, sync: new SemanticSync(vaultRepo, index, logger), logger, audit,
+      onNoteChange: change => mcpSessions.notifyNoteChange(change)
+    };
+  });
+  ctx = await vaults.ensure(defaultVault);
+  logger.info(`[SQLite] Backup ready at ${storageFile} (default vault: ${defaultVault})`);
+  // Notes created while the local vector store was missing or reset
+  if (localMode || !mem0SimpleMode) {
+    (async () => {
+      for (const vaultCtx of await vaults.all()) {
+        await vaultCtx.sync.reindexMissing();
+      }
+    })().catch(err => logger.error(`[Mem0] Startup re-index failed: ${err.message}`));
   }
 }
 
 /**
- * Retrieve a note from Mem0, fallback to null on error.
- * @param {string} id - Note ID.
- * @returns {Promise<{id: string, content: string, via: string} | null>}
+ * Tool context of the vault a request selects with the X-ZK-Vault header or
+ * the `vault` query parameter, or of the default vault, limited to the scopes
+ * of the request's API key.
+ * @param {Request} req - Express request.
+ * @param {Response} res - Express response, holding the authenticated key.
+ * @returns {Promise<ToolContext>}
+ * @throws {ToolInputError} If the vault ID is invalid
+ * @throws {Error} 'Vault not found'
  */
-async function getNoteFromMem0(id: string): Promise<{id: string, content: string, via: string} | null> {
-  try {
-    const rawResults = await withTimeout(
-      memory.search(`noteId:${id}`, { userId, limit: 1 }),
-      mem0TimeoutMs
-    );
-    const results = normalizeSearchResults(rawResults);
-    if (results.length > 0) {
-      return { id, content: results[0].memory, via: 'mem0' };
-    }
-    return null;
-  } catch (err: any) {
-    logger.warn(`[Mem0] Get failed for ${id}: ${err.message}`);
-    return null;
-  }
+async function requestContext(req: Request, res: Response): Promise<ToolContext> {
+  const vault = req.header(VAULT_HEADER) ?? req.query.vault;
+  const vaultCtx = vault === undefined || vault === '' ? ctx : await selectVault(ctx, vault);
+  const key = authenticatedKey(res);
+  return key ? { ...vaultCtx, scopes: key.scopes, apiKeyId: key.id } : vaultCtx;
 }
 
-/**
- * Retry queue flush
- */
-async function flushRetryQueue(): Promise<void> {
-  const failed = await db.all<{ id: string; payload: string }[]>('SELECT * FROM retry_queue');
-  if (!failed.length) return;
-  logger.info(`[Retry] Flushing ${failed.length} item(s)…`);
-  for (const row of failed) {
-    try {
-      const { id, title, content }: { id: string; title: string; content: string } = JSON.parse(row.payload);
-      await withTimeout(
-        memory.add([
-          { role: 'user', content: `Note: ${title}` },
-        { role: 'assistant', content }
-        ], { userId, metadata: { noteId: id, title } }),
-        mem0TimeoutMs
-      );
-      await db.run('DELETE FROM retry_queue WHERE id = ?', row.id);
-      logger.info(`[Retry] Synced ${row.id}`);
-    } catch (err: any) {
-      logger.warn(`[Retry] Still failing ${row.id}: ${err.message}`);
-    }
-  }
+if (!authRequired) {
+  logger.warn('[Auth] MCP_AUTH_REQUIRED=false: requests without an API key have full access');
 }
 
 // --- Express App & Middlewares ---
 const app = express();
 app.use(helmet());
-app.use(cors());
+// No cross-origin access unless MCP_CORS_ORIGINS lists the origins
+app.use(cors({
+  origin: corsOrigins.includes('*') ? true : corsOrigins,
+  allowedHeaders: ['Content-Type', 'Authorization', API_KEY_HEADER, VAULT_HEADER, MCP_SESSION_HEADER, 'Mcp-Protocol-Version', 'Last-Event-ID'],
+  exposedHeaders: [MCP_SESSION_HEADER]
+}));
+app.use(authFailureRateLimit({ windowMs: rateLimitWindowMs, limit: authFailureLimit }));
+app.use(apiKeyAuth({ getDb: () => keysDb, required: authRequired, publicPaths: ['/health'], logger }));
+app.use(keyRateLimit({ windowMs: rateLimitWindowMs, defaultLimit: rateLimitMax }));
 app.use(bodyParser.json());
-app.use(rateLimit({ windowMs: rateLimitWindowMs, max: rateLimitMax }));
 
 // Ensure DB initialized
 initDB().catch(err => { logger.error(`[DB] Init failed: ${err.message}`); process.exit(1); });
 
-// Start retry queue flush interval
-setInterval(() => flushRetryQueue().catch(logger.error), 10000).unref();
-
-/**
- * Specification of available MCP tools implementing Zettelkasten methodology.
- * 
- * ZETTELKASTEN WORKFLOW:
- * 1. SEARCH FIRST: Always start with zk_search_notes to find existing context
- * 2. ANALYZE: Plan your response based on retrieved notes  
- * 3. CREATE: Add new atomic knowledge with zk_create_note
- * 4. LINK: Connect related ideas with zk_create_link (bidirectional)
- * 5. RESPOND: Reference which notes were used/created
- * 
- * @type {{name: string, description: string, params: string[], methodology: string}[]}
- */
-const toolSpec = [
-  { 
-    name: 'zk_search_notes', 
-    description: 'STEP 1: Search existing notes semantically before any action. Find context and related knowledge using Mem0 vector search.',
-    params: ['query:string'],
-    methodology: 'Always start here. Extract keywords from user request and search for existing knowledge before proceeding.'
-  },
-  { 
-    name: 'zk_get_note', 
-    description: 'STEP 2: Retrieve specific note by ID when you have exact reference. Mem0 primary with SQLite fallback.',
-    params: ['id:string'],
-    methodology: 'Use when you have a specific note ID from search results or links. Part of analysis phase.'
-  },
-  { 
-    name: 'zk_create_note', 
-    description: 'STEP 3: Create atomic note with clear title, concise content, and relevant tags. Each idea = one note.',
-    params: ['title:string', 'content:string', 'tags?:string[]'],
-    methodology: 'Only after searching. One atomic idea per note. Title must be descriptive. Content concise but complete.'
-  },
-  { 
-    name: 'zk_create_link', 
-    description: 'STEP 4: Create bidirectional relationship between notes. Types: extends/refines/contradicts/relates/supports.',
-    params: ['from:string','to:string','type:string'],
-    methodology: 'Always link new notes to existing ones. Use meaningful relationship types that explain the connection.'
-  }
-];
+// Start retry queue flush interval (every vault); a tick is skipped while the last flush still runs
+setInterval(() => {
+  if (vaults) vaults.flushQueues().catch(err => logger.error(`[Queue] Flush failed: ${err.message}`));
+}, 10000).unref();
 
 /**
  * GET /mcp/spec - Return MCP tools specification.
@@ -367,449 +332,229 @@ app.get('/mcp/spec', (_req: Request, res: Response) => {
  * GET /mcp/methodology - Explain Zettelkasten methodology and workflow.
  */
 app.get('/mcp/methodology', (_req: Request, res: Response) => {
-  res.json({
-    name: "Zettelkasten Methodology with Mem0",
-    version: "1.0",
-    description: "Semantic memory management following Zettelkasten principles",
-    
-    principles: {
-      atomicity: "Each note contains one clear, complete idea with descriptive title",
-      connectivity: "All notes are connected through bidirectional semantic links", 
-      discoverability: "Use semantic search (Mem0) to find related knowledge before creating",
-      emergence: "Knowledge emerges from the network of connected atomic notes"
-    },
-    
-    workflow: {
-      "1_search": {
-        action: "POST /mcp/zk_search_notes",
-        purpose: "Find existing context and related knowledge",
-        rule: "NEVER respond without searching first"
-      },
-      "2_analyze": {
-        action: "GET /mcp/zk_get_note (if needed)",
-        purpose: "Retrieve specific notes to understand current knowledge state",
-        rule: "Plan response based on retrieved notes"
-      },
-      "3_create": {
-        action: "POST /mcp/zk_create_note", 
-        purpose: "Add new atomic knowledge discoveries",
-        rule: "One idea per note, clear title, concise content"
-      },
-      "4_link": {
-        action: "POST /mcp/zk_create_link",
-        purpose: "Connect new knowledge to existing network",
-        rule: "Always create bidirectional semantic relationships"
-      },
-      "5_respond": {
-        action: "Final response to user",
-        purpose: "Reference notes used and created",
-        rule: "Make knowledge graph explicit in communication"
-      }
-    },
-    
-    linkTypes: [
-      "extends", "extended_by", 
-      "refines", "refined_by",
-      "contradicts", "contradicted_by", 
-      "supports", "supported_by",
-      "relates", "related_by",
-      "exemplifies", "exemplified_by"
-    ],
-    
-    bestPractices: [
-      "Search before every action using semantic keywords",
-      "Create atomic notes with single, clear concepts", 
-      "Use meaningful, descriptive titles",
-      "Tag consistently for discoverability",
-      "Link bidirectionally with semantic relationship types",
-      "Prefer Mem0 semantic search over SQLite text search",
-      "Document inconsistencies as new notes",
-      "Reference note IDs in final responses"
-    ],
-    
-    example: {
-      userQuery: "How to implement authentication in Next.js?",
-      workflow: [
-        "1. POST /mcp/zk_search_notes query='Next.js authentication'",
-        "2. Analyze retrieved notes about auth patterns, libraries, security",
-        "3. POST /mcp/zk_create_note with new implementation approach",
-        "4. POST /mcp/zk_create_link connecting to existing auth/Next.js notes",
-        "5. Respond with solution referencing note network used"
-      ]
-    }
-  });
+  res.json(methodologyResponse);
 });
 
 // --- Routes ---
+/**
+ * Arguments of a GET route: query parameters with numeric ones converted and
+ * list ones split on commas.
+ * @param {Request} req - Express request.
+ * @param {string[]} [numbers] - Numeric parameters.
+ * @param {string[]} [lists] - Comma-separated list parameters.
+ * @returns {Record<string, any>}
+ */
+function queryArgs(req: Request, numbers: string[] = [], lists: string[] = []): Record<string, any> {
+  const args: Record<string, any> = {};
+  for (const [key, value] of Object.entries(req.query)) {
+    if (typeof value !== 'string' || value === '') continue;
+    if (numbers.includes(key)) args[key] = Number(value);
+    else if (lists.includes(key)) args[key] = value.split(',').filter(Boolean);
+    else args[key] = value;
+  }
+  return args;
+}
+
+/**
+ * Route handler running a tool in the request's vault and answering with its
+ * JSON result: 400 for invalid arguments, 403 for tools the API key's scopes
+ * do not allow, 404 for missing notes or vaults. Calls are recorded in the
+ * audit log with the User-Agent as client.
+ * @param {string} name - Tool name.
+ * @param {(req: Request) => Record<string, any>} readArgs - Reads the tool arguments from the request.
+ * @returns {RequestHandler}
+ */
+function toolRoute(name: string, readArgs: (req: Request) => Record<string, any>): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const toolCtx = await requestContext(req, res);
+      const args = readArgs(req);
+      const caller = { transport: 'rest' as const, client: { name: req.header('user-agent') ?? 'unknown' }, address: req.ip };
+      const { data } = await auditToolCall(toolCtx, caller, name, args, () => executeTool(toolCtx, name, args));
+      res.json(data);
+    } catch (err: any) {
+      if (err instanceof ToolInputError) {
+        res.status(400).json({ error: err.message });
+      } else if (err instanceof ToolPermissionError) {
+        res.status(403).json({ error: err.message });
+      } else if (isNotFoundError(err)) {
+        res.status(404).json({ error: err.message });
+      } else {
+        next(err);
+      }
+    }
+  };
+}
+
+const bodyArgs = (req: Request): Record<string, any> => req.body ?? {};
+
 /**
  * POST /mcp/zk_create_note - Create a new Zettelkasten note.
  * @param {string} title - Note title.
  * @param {string} content - Note content.
  * @param {string[]} [tags] - Optional tags.
  */
-app.post('/mcp/zk_create_note', async (req: Request, res: Response) => {
-  const { title, content, tags } = req.body;
-  if (typeof title !== 'string' || typeof content !== 'string') {
-    res.status(400).json({ error: 'Invalid payload' });
-    return;
-  }
-  const id = uuidv4();
-  // Backup in SQLite
-  await db.run(
-    `INSERT INTO notes (id,title,content,tags,links) VALUES (?,?,?,?,?)`,
-    id,
-    title,
-    content,
-    tags ? JSON.stringify(tags) : null,
-    JSON.stringify([])
-  );
-  // Primary storage in Mem0
-  syncNoteToMem0(id, title, content);
-  res.json({ id, title, tags: tags||[], via: 'mem0' });
-});
+app.post('/mcp/zk_create_note', toolRoute('zk_create_note', bodyArgs));
 
 /**
- * GET /mcp/zk_get_note - Retrieve a note by ID, Mem0 primary with SQLite fallback.
+ * GET /mcp/zk_get_note - Retrieve a note by ID from SQLite, optionally enriched from Mem0.
  * @param {string} id - Note ID.
+ * @param {string} [source] - local (default), semantic or both.
  */
-app.get('/mcp/zk_get_note', async (req: Request, res: Response) => {
-  const id = String(req.query.id || '');
-  if (!id) {
-    res.status(400).json({ error: 'ID required' });
-    return;
-  }
-  const memNote = await getNoteFromMem0(id);
-  if (memNote) {
-    res.json(memNote);
-    return;
-  }
-  // Fallback to SQLite
-  const row = await db.get(`SELECT * FROM notes WHERE id = ?`, id);
-  if (row) {
-    res.json({ 
-      id: row.id, 
-      title: row.title, 
-      content: row.content,
-      tags: row.tags ? JSON.parse(row.tags) : [],
-      links: JSON.parse(row.links || '[]'),
-      via: 'sqlite' 
-    });
-    return;
-  }
-  res.status(404).json({ error: 'Note not found' });
-});
+app.get('/mcp/zk_get_note', toolRoute('zk_get_note', req => queryArgs(req)));
 
 /**
- * POST /mcp/zk_create_link - Create a bidirectional link between notes (SQLite backup only).
+ * POST /mcp/zk_create_link - Create a link between notes (SQLite backup only). Idempotent.
  * @param {string} from - Origin note ID.
  * @param {string} to - Target note ID.
  * @param {string} type - Link type.
+ * @param {string} [note] - Why the notes are linked.
+ * @param {number} [weight] - Strength of the relationship.
  */
-app.post('/mcp/zk_create_link', async (req: Request, res: Response) => {
-  const { from, to, type } = req.body;
-  if (!from || !to || !type) {
-    res.status(400).json({ error: 'Missing fields' });
-    return;
-  }
-  const origin = await db.get(`SELECT links FROM notes WHERE id=?`, from);
-  const target = await db.get(`SELECT links FROM notes WHERE id=?`, to);
-  if (!origin || !target) {
-    res.status(404).json({ error: 'Note(s) not found' });
-    return;
-  }
-  const oLinks = JSON.parse(origin.links);
-  const tLinks = JSON.parse(target.links);
-  oLinks.push({ from, to, type });
-  tLinks.push({ from: to, to: from, type: `${type}_by` });
-  await db.run(`UPDATE notes SET links=? WHERE id=?`, JSON.stringify(oLinks), from);
-  await db.run(`UPDATE notes SET links=? WHERE id=?`, JSON.stringify(tLinks), to);
-  res.json({ success: true, from, to, type });
-});
+app.post('/mcp/zk_create_link', toolRoute('zk_create_link', bodyArgs));
 
 /**
- * POST /mcp/zk_search_notes - Search notes semantically via Mem0 with SQLite fallback.
- * @param {string} query - Search query string.
+ * POST /mcp/zk_update_note - Update a note, keeping its previous version as a revision.
+ * @param {string} id - Note ID.
+ * @param {string} [title] - New title.
+ * @param {string} [content] - New content.
+ * @param {string[]} [tags] - New tags.
  */
-app.post('/mcp/zk_search_notes', async (req: Request, res: Response) => {
-  const { query } = req.body;
-  if (typeof query !== 'string') {
-    res.status(400).json({ error: 'Invalid query' });
-    return;
-  }
-  try {
-    const results = await withTimeout(
-      memory.search(query, { userId, limit: 10 }),
-      mem0TimeoutMs
-    );
-    const notes = Array.isArray(results) ? results.map((m: any) => ({ id: m.id, content: m.memory, via: 'mem0' })) : [];
-    res.json({ results: notes, via: 'mem0' });
-    return;
-  } catch (err: any) {
-    logger.warn(`[Mem0] Search error: ${err.message}, using SQLite`);
-    const rows = await db.all(
-      `SELECT * FROM notes WHERE title LIKE ? OR content LIKE ? ORDER BY created_at DESC LIMIT 10`,
-      `%${query}%`, `%${query}%`
-    );
-    const processedResults = rows.map(row => ({
-      ...row,
-      tags: row.tags ? JSON.parse(row.tags) : [],
-      links: JSON.parse(row.links || '[]')
-    }));
-    res.json({ results: processedResults, via: 'sqlite' });
-  }
-});
+app.post('/mcp/zk_update_note', toolRoute('zk_update_note', bodyArgs));
 
 /**
- * GET /health - Health check endpoint.
+ * GET /mcp/zk_get_note_history - List a note's revisions and diff two of them.
+ * @param {string} id - Note ID.
+ * @param {number} [from_revision] - Older revision to diff.
+ * @param {number} [to_revision] - Newer revision to diff.
  */
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    version: '0.10.0'
-  });
-});
+app.get('/mcp/zk_get_note_history', toolRoute('zk_get_note_history', req => queryArgs(req, ['from_revision', 'to_revision'])));
 
 /**
- * GET /sse - Server-Sent Events endpoint for MCP SSE transport
+ * POST /mcp/zk_delete_note - Archive (default) or permanently delete a note.
+ * @param {string} id - Note ID.
+ * @param {'archive'|'hard'} [mode] - Delete mode.
  */
-app.get('/sse', (req: Request, res: Response) => {
-  logger.info(`[SSE] Connection attempt from ${req.ip}, headers:`, req.headers);
-  
-  // Set SSE headers
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    'Connection': 'keep-alive',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Cache-Control'
-  });
+app.post('/mcp/zk_delete_note', toolRoute('zk_delete_note', bodyArgs));
 
-  logger.info('[SSE] Headers sent, writing endpoint event...');
-
-  // Send endpoint event (required by MCP SSE spec)
-  res.write('event: endpoint\n');
-  res.write('data: {"uri": "/messages"}\n\n');
-
-  logger.info('[SSE] Endpoint event sent, connection established');
+/**
+ * POST /mcp/zk_restore_note - Restore an archived note.
+ * @param {string} id - Note ID.
+ */
+app.post('/mcp/zk_restore_note', toolRoute('zk_restore_note', bodyArgs));
 
-  // Handle client disconnect
-  req.on('close', () => {
-    logger.info('[SSE] Client disconnected');
-  });
+/**
+ * GET /mcp/zk_get_neighbors - Linked notes up to N hops from a note.
+ * @param {string} id - Root note ID.
+ * @param {number} [depth] - Number of hops (default 1).
+ * @param {string} [types] - Comma-separated link types to follow.
+ * @param {'outgoing'|'incoming'|'both'} [direction] - Which links to follow.
+ */
+app.get('/mcp/zk_get_neighbors', toolRoute('zk_get_neighbors', req => queryArgs(req, ['depth'], ['types'])));
 
-  req.on('error', (err) => {
-    logger.error(`[SSE] Connection error: ${err.message}, stack:`, err.stack);
-  });
+/**
+ * GET /mcp/zk_find_path - Shortest link path(s) between two notes.
+ * @param {string} from - Start note ID.
+ * @param {string} to - End note ID.
+ * @param {number} [max_depth] - Longest path to consider in hops.
+ * @param {number} [limit] - Number of paths to return.
+ * @param {string} [types] - Comma-separated link types to follow.
+ */
+app.get('/mcp/zk_find_path', toolRoute('zk_find_path', req => queryArgs(req, ['max_depth', 'limit'], ['types'])));
 
-  // Handle response errors
-  res.on('error', (err) => {
-    logger.error(`[SSE] Response error: ${err.message}`);
-  });
+/**
+ * POST /mcp/zk_search_notes - Search notes semantically via Mem0 with SQLite full-text fallback.
+ * @param {string} query - Search query string.
+ * @param {'semantic'|'fulltext'|'hybrid'} [mode] - Search backend (default semantic).
+ * @param {string[]} [tags] - Only notes with these tags.
+ * @param {'any'|'all'} [tag_mode] - Whether a note needs any or all of `tags` (default any).
+ * @param {string} [created_after] - ISO date, inclusive.
+ * @param {string} [created_before] - ISO date, exclusive.
+ * @param {string} [linked_to] - Only notes linked to this note ID.
+ * @param {string} [link_type] - Only notes with a link of this type (to `linked_to`, if given).
+ * @param {number} [limit] - Page size (default 10, max 100).
+ * @param {number} [offset] - Results to skip.
+ * @param {number} [min_score] - Minimum score on the scale of the chosen mode.
+ */
+app.post('/mcp/zk_search_notes', toolRoute('zk_search_notes', bodyArgs));
 
-  // Don't end the response - keep it open for streaming
-});
+/**
+ * POST /mcp/zk_reindex - Admin: rebuild the semantic index from SQLite.
+ * @param {'missing'|'all'} [scope] - Push only missing notes (default) or every selected note.
+ * @param {string[]} [ids] - Only these notes.
+ * @param {string[]} [tags] - Only notes with these tags.
+ * @param {'any'|'all'} [tag_mode] - Whether a note needs any or all of `tags` (default any).
+ * @param {string} [created_after] - ISO date, inclusive.
+ * @param {string} [created_before] - ISO date, exclusive.
+ * @param {number} [batch_size] - Notes pushed concurrently (default 20).
+ * @param {boolean} [purge_orphans] - Delete memories with no matching note.
+ * @param {boolean} [dry_run] - Only report what would be done.
+ */
+app.post('/mcp/zk_reindex', toolRoute('zk_reindex', bodyArgs));
 
 /**
- * POST /messages - Handle MCP messages for SSE transport
+ * GET /mcp/zk_sync_status - Admin: index operations pending retry and dead letters.
+ * @param {number} [limit] - Entries shown per list (default 20).
  */
-app.post('/messages', async (req: Request, res: Response) => {
-  try {
-    logger.info('[SSE] Received message:', JSON.stringify(req.body, null, 2));
-    const { method, params, id } = req.body;
-    
-    if (method === 'initialize') {
-      res.json({
-        jsonrpc: '2.0',
-        id,
-        result: {
-          protocolVersion: '2024-11-05',
-          capabilities: {
-            tools: {},
-            resources: {},
-            prompts: {}
-          },
-          serverInfo: {
-            name: 'zettelkasten-mem0-server',
-            version: '0.10.0'
-          }
-        }
-      });
-      return;
-    }
+app.get('/mcp/zk_sync_status', toolRoute('zk_sync_status', req => queryArgs(req, ['limit'])));
 
-    if (method === 'tools/list') {
-      res.json({
-        jsonrpc: '2.0',
-        id,
-        result: {
-          tools: [
-            {
-              name: 'zk_create_note',
-              description: 'Create a new Zettelkasten note with semantic storage',
-              inputSchema: {
-                type: 'object',
-                properties: {
-                  title: { type: 'string', description: 'Note title' },
-                  content: { type: 'string', description: 'Note content' },
-                  tags: { type: 'array', items: { type: 'string' }, description: 'Optional tags' }
-                },
-                required: ['title', 'content']
-              }
-            },
-            {
-              name: 'zk_get_note',
-              description: 'Retrieve a note by ID from semantic memory',
-              inputSchema: {
-                type: 'object',
-                properties: {
-                  id: { type: 'string', description: 'Note ID' }
-                },
-                required: ['id']
-              }
-            },
-            {
-              name: 'zk_search_notes',
-              description: 'Search notes semantically using Mem0',
-              inputSchema: {
-                type: 'object',
-                properties: {
-                  query: { type: 'string', description: 'Search query' }
-                },
-                required: ['query']
-              }
-            },
-            {
-              name: 'zk_create_link',
-              description: 'Create bidirectional link between notes',
-              inputSchema: {
-                type: 'object',
-                properties: {
-                  from: { type: 'string', description: 'Source note ID' },
-                  to: { type: 'string', description: 'Target note ID' },
-                  type: { type: 'string', description: 'Link type' }
-                },
-                required: ['from', 'to', 'type']
-              }
-            }
-          ]
-        }
-      });
-      return;
-    }
+/**
+ * GET /mcp/zk_list_vaults - Vaults with their number of active notes.
+ */
+app.get('/mcp/zk_list_vaults', toolRoute('zk_list_vaults', () => ({})));
 
-    if (method === 'tools/call') {
-      const { name, arguments: args } = params;
-      let result;
-
-      switch (name) {
-        case 'zk_create_note':
-          const { title, content, tags } = args;
-          if (typeof title !== 'string' || typeof content !== 'string') {
-            throw new Error('Invalid payload: title and content must be strings');
-          }
-          const id = uuidv4();
-          // Backup in SQLite
-          await db.run(
-            `INSERT INTO notes (id,title,content,tags,links) VALUES (?,?,?,?,?)`,
-            id, title, content,
-            tags ? JSON.stringify(tags) : null,
-            JSON.stringify([])
-          );
-          // Primary storage in Mem0
-          syncNoteToMem0(id, title, content);
-          result = { content: [{ type: 'text', text: `Created note "${title}" with ID: ${id}` }] };
-          break;
-
-        case 'zk_get_note':
-          const noteId = args.id;
-          if (!noteId) {
-            throw new Error('Note ID required');
-          }
-          const memNote = await getNoteFromMem0(noteId);
-          if (memNote) {
-            result = { content: [{ type: 'text', text: `Note: ${memNote.content}` }] };
-          } else {
-            // Fallback to SQLite
-            const row = await db.get(`SELECT * FROM notes WHERE id = ?`, noteId);
-            if (row) {
-              result = { content: [{ type: 'text', text: `Note: ${row.title}\n${row.content}` }] };
-            } else {
-              throw new Error('Note not found');
-            }
-          }
-          break;
-
-        case 'zk_search_notes':
-          const query = args.query;
-          if (typeof query !== 'string') {
-            throw new Error('Invalid query: must be a string');
-          }
-          try {
-            const results = await withTimeout(
-              memory.search(query, { userId, limit: 10 }),
-              mem0TimeoutMs
-            );
-            const notes = Array.isArray(results) ? results.map((m: any) => `ID: ${m.id}\nContent: ${m.memory}`).join('\n\n') : 'No results found';
-            result = { content: [{ type: 'text', text: `Search results:\n${notes}` }] };
-          } catch (err: any) {
-            logger.warn(`[Mem0] Search error: ${err.message}, using SQLite`);
-            const rows = await db.all(
-              `SELECT * FROM notes WHERE title LIKE ? OR content LIKE ? ORDER BY created_at DESC LIMIT 10`,
-              `%${query}%`, `%${query}%`
-            );
-            const notes = rows.map(row => `ID: ${row.id}\nTitle: ${row.title}\nContent: ${row.content}`).join('\n\n');
-            result = { content: [{ type: 'text', text: `Search results (SQLite):\n${notes}` }] };
-          }
-          break;
-
-        case 'zk_create_link':
-          const { from, to, type } = args;
-          if (!from || !to || !type) {
-            throw new Error('Missing fields: from, to, and type are required');
-          }
-          const origin = await db.get(`SELECT links FROM notes WHERE id=?`, from);
-          const target = await db.get(`SELECT links FROM notes WHERE id=?`, to);
-          if (!origin || !target) {
-            throw new Error('One or both notes not found');
-          }
-          const oLinks = JSON.parse(origin.links);
-          const tLinks = JSON.parse(target.links);
-          oLinks.push({ from, to, type });
-          tLinks.push({ from: to, to: from, type: `${type}_by` });
-          await db.run(`UPDATE notes SET links=? WHERE id=?`, JSON.stringify(oLinks), from);
-          await db.run(`UPDATE notes SET links=? WHERE id=?`, JSON.stringify(tLinks), to);
-          result = { content: [{ type: 'text', text: `Created ${type} link from ${from} to ${to}` }] };
-          break;
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
+/**
+ * POST /mcp/zk_create_vault - Create an empty vault.
+ * @param {string} id - Vault ID: 1-64 letters, digits, `_` or `-`.
+ * @param {string} [name] - Display name (default: the ID).
+ */
+app.post('/mcp/zk_create_vault', toolRoute('zk_create_vault', bodyArgs));
 
-      res.json({
-        jsonrpc: '2.0',
-        id,
-        result
-      });
-      return;
-    }
+/**
+ * GET /mcp/zk_audit_query - Admin: page through the audit log of tool calls, newest first.
+ * @param {string} [tool] - Only calls of this tool.
+ * @param {'stdio'|'http'|'sse'|'rest'} [transport] - Only calls over this transport.
+ * @param {'ok'|'error'|'denied'} [status] - Only calls with this outcome.
+ * @param {string} [api_key_id] - Only calls made with this API key.
+ * @param {string} [vault_id] - Only calls in this vault.
+ * @param {string} [client] - Only calls from this client name.
+ * @param {string} [since] - ISO date, inclusive.
+ * @param {string} [until] - ISO date, exclusive.
+ * @param {string} [cursor] - next_cursor of the previous page.
+ * @param {number} [limit] - Page size (default 50, max 500).
+ */
+app.get('/mcp/zk_audit_query', toolRoute('zk_audit_query', req => queryArgs(req, ['limit'])));
 
-    // Unknown method
-    res.status(400).json({
-      jsonrpc: '2.0',
-      id,
-      error: { code: -32601, message: `Method not found: ${method}` }
-    });
+/**
+ * GET /health - Health check endpoint. Reports `degraded` while the Mem0
+ * circuit breaker is not closed (requests are then served from SQLite), and
+ * the open MCP sessions per transport.
+ */
+app.get('/health', (_req: Request, res: Response) => {
+  const mem0 = localMode ? null : mem0Breaker.snapshot();
+  res.json({
+    status: mem0 && mem0.state !== 'closed' ? 'degraded' : 'ok',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    version: '0.10.0',
+    mem0,
+    sessions: mcpSessions.counts()
+  });
+});
 
-  } catch (error: any) {
-    logger.error(`[MCP] Tool execution error: ${error.message}`);
-    res.status(500).json({
-      jsonrpc: '2.0',
-      id: req.body.id,
-      error: { code: -32603, message: error.message }
-    });
-  }
+/**
+ * MCP transports: Streamable HTTP on `/mcp`, legacy SSE on `/sse` + `/messages`.
+ * Each session has its own MCP server over the tool context of the vault
+ * selected when it opened, and can only be used with the API key that opened it.
+ * @type {McpHttpSessions}
+ */
+const mcpSessions = mountMcpTransports(app, {
+  info: httpServerInfo,
+  resolveContext: requestContext,
+  requestOwner: res => authenticatedKey(res)?.id,
+  logger,
+  keepaliveMs,
+  sessionIdleMs
 });
 
 /**
@@ -827,6 +572,7 @@ const server = app.listen(port, () => {
   logger.info(`[MCP] Server listening on port ${port}`);
   logger.info(`[MCP] Health check: http://localhost:${port}/health`);
   logger.info(`[MCP] MCP spec: http://localhost:${port}/mcp/spec`);
+  logger.info(`[MCP] MCP endpoint: http://localhost:${port}/mcp (legacy SSE: /sse)`);
 });
 
 // Graceful shutdown
@@ -836,8 +582,10 @@ async function gracefulShutdown(signal: string): Promise<void> {
     server.close(() => {
       logger.info('[Shutdown] HTTP server closed');
     });
-    if (db) {
-      await db.close();
+    await mcpSessions.closeAll();
+    logger.info('[Shutdown] MCP sessions closed');
+    if (repo) {
+      await repo.close();
       logger.info('[Shutdown] SQLite closed');
     }
     process.exit(0);
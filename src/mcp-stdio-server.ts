@@ -14,25 +14,25 @@
  * - Graceful shutdown
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { v4 as uuidv4 } from 'uuid';
-import { Memory } from 'mem0ai/oss';
-import MemoryClient from 'mem0ai';
-import sqlite3 from 'sqlite3';
-import { open, Database } from 'sqlite';
 import path from 'path';
-import os from 'os';
 import fs from 'fs';
 import dotenv from 'dotenv';
 
 // Shared modules
 import { MCPConfig } from './shared/types.js';
-import { mcpToolsSchema, methodologyResponse } from './shared/constants.js';
-import { stdioServerInfo, stdioCapabilities } from './shared/stdio-constants.js';
-import { withTimeout, normalizeSearchResults, expandHomeDir, getDefaultStorageDir, formatSearchResults } from './shared/utils.js';
+import { stdioServerInfo } from './shared/stdio-constants.js';
+import { expandHomeDir, getDefaultStorageDir } from './shared/utils.js';
 import { createLogger } from './shared/logger.js';
+import { loadLinkTypeConfig } from './shared/link-types.js';
+import { NoteRepository, openSqliteRepository } from './shared/repository.js';
+import { semanticIndexFactory, isMem0Outage } from './shared/semantic-index.js';
+import { CircuitBreaker } from './shared/circuit-breaker.js';
+import { SemanticSync } from './shared/sync.js';
+import { ToolContext } from './shared/tools.js';
+import { createMcpServer } from './shared/mcp-server.js';
+import { VaultContexts, DEFAULT_VAULT, parseVaultId } from './shared/vaults.js';
+import { AuditLog } from './shared/audit.js';
 
 // Load environment variables with absolute path
 dotenv.config({ path: '/opt/prj/mcp-zettelkasten-notes-mem0/.env' });
@@ -44,33 +44,52 @@ const config: MCPConfig = {
   mem0ApiKey: process.env.MEM0_API_KEY,
   openaiApiKey: process.env.OPENAI_API_KEY,
   mem0SimpleMode: process.env.MEM0_SIMPLE_MODE === 'true',
+  localMode: process.env.MCP_LOCAL_MODE === 'true',
   userId: process.env.MCP_USER_ID || 'zettelkasten_mcp',
+  vault: process.env.MCP_VAULT || DEFAULT_VAULT,
+  auditLog: process.env.MCP_AUDIT_LOG !== 'false',
+  auditRedact: (process.env.MCP_AUDIT_REDACT || '').split(',').map(name => name.trim()).filter(Boolean),
   storageDir: process.env.MCP_STORAGE_DIR,
   mem0TimeoutMs: process.env.MCP_MEM0_TIMEOUT ? parseInt(process.env.MCP_MEM0_TIMEOUT) : 5000,
+  mem0BreakerThreshold: process.env.MCP_MEM0_BREAKER_THRESHOLD ? parseInt(process.env.MCP_MEM0_BREAKER_THRESHOLD) : 5,
+  mem0BreakerCooldownMs: process.env.MCP_MEM0_BREAKER_COOLDOWN ? parseInt(process.env.MCP_MEM0_BREAKER_COOLDOWN) : 30000,
 };
 
 const {
   mem0ApiKey,
   openaiApiKey,
   mem0SimpleMode = true,
+  localMode = false,
   userId = 'zettelkasten_mcp',
+  vault: defaultVault = DEFAULT_VAULT,
+  auditLog = true,
+  auditRedact = [],
   storageDir,
-  mem0TimeoutMs = 5000
+  mem0TimeoutMs = 5000,
+  mem0BreakerThreshold = 5,
+  mem0BreakerCooldownMs = 30000
 } = config as Required<MCPConfig>;
 
-// Validate required API keys based on mode
-if (mem0SimpleMode && !mem0ApiKey) {
+// Validate required API keys based on mode (local mode needs none)
+if (!localMode && mem0SimpleMode && !mem0ApiKey) {
   console.error('[MCP] Missing Mem0 API Key for simple mode');
   console.error('[MCP] Please set MEM0_API_KEY in your environment');
   process.exit(1);
 }
 
-if (!mem0SimpleMode && !openaiApiKey) {
+if (!localMode && !mem0SimpleMode && !openaiApiKey) {
   console.error('[MCP] Missing OpenAI API Key for advanced mode');
   console.error('[MCP] Please set OPENAI_API_KEY in your environment');
   process.exit(1);
 }
 
+try {
+  parseVaultId(defaultVault);
+} catch (err: any) {
+  console.error(`[MCP] MCP_VAULT: ${err.message}`);
+  process.exit(1);
+}
+
 // Setup storage directory
 const defaultDir = getDefaultStorageDir();
 
@@ -80,316 +99,89 @@ fs.mkdirSync(dbDir, { recursive: true });
 
 const storageFile = path.join(dbDir, 'notes-db.sqlite');
 
-// Database setup
-let db: Database<sqlite3.Database, sqlite3.Statement>;
-
-async function initDB(): Promise<void> {
-  db = await open({ filename: storageFile, driver: sqlite3.Database });
-  // Performance optimizations
-  await db.exec('PRAGMA journal_mode=WAL;');
-  await db.exec('PRAGMA synchronous=NORMAL;');
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS notes (
-      id TEXT PRIMARY KEY,
-      title TEXT,
-      content TEXT,
-      tags TEXT,
-      links TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS retry_queue (
-      id TEXT PRIMARY KEY,
-      payload TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-  logger.info(`SQLite initialized at ${storageFile}`);
-}
-
-// Memory setup - dual mode support
-const memory: any = mem0SimpleMode 
-  ? new MemoryClient({ apiKey: mem0ApiKey })
-  : new Memory({
-      version: 'v1.1',
-      embedder: {
-        provider: 'openai',
-        config: {
-          apiKey: openaiApiKey,
-          model: 'text-embedding-3-small',
-        },
-      },
-      vectorStore: {
-        provider: 'memory',
-        config: {
-          collectionName: 'zettelkasten_memories',
-          dimension: 1536,
-        },
-      },
-      llm: {
-        provider: 'openai',
-        config: {
-          apiKey: openaiApiKey,
-          model: 'gpt-4o-mini',
-        },
-      },
-      historyDbPath: path.join(dbDir, 'memory-history.db'),
-    });
-
 // Create logger for STDIO server
 const logger = createLogger('stdio');
 
-logger.info(`Mem0 initialized in ${mem0SimpleMode ? 'SIMPLE' : 'ADVANCED'} mode`);
-
-// Utility functions imported from shared
-
-/**
- * Sync a note to Mem0 with retry on failure
- */
-async function syncNoteToMem0(id: string, title: string, content: string): Promise<void> {
-  try {
-    const payload = mem0SimpleMode 
-      ? [{ role: "user" as const, content: `[${id}] ${title}: ${content}` }]
-      : [
-          { role: 'user', content: `Note: ${title}` },
-          { role: 'assistant', content }
-        ];
-    
-    const options = mem0SimpleMode 
-      ? { user_id: userId }
-      : { userId, metadata: { noteId: id, title } };
-
-    await withTimeout(
-      memory.add(payload, options),
-      mem0TimeoutMs
-    );
-    logger.info(`Note ${id} synced to Mem0`);
-  } catch (err: any) {
-    logger.error(`Mem0 sync failed: ${err.message}`);
-    // Add to retry queue
-    await db.run('INSERT OR REPLACE INTO retry_queue (id,payload) VALUES (?,?)', 
-      id, JSON.stringify({ id, title, content }));
-  }
-}
-
-/**
- * Get note from Mem0 with proper result handling
- */
-async function getNoteFromMem0(id: string): Promise<{id: string, content: string, via: string} | null> {
-  try {
-    const query = mem0SimpleMode ? `[${id}]` : `noteId:${id}`;
-    const options = mem0SimpleMode 
-      ? { user_id: userId, limit: 1 }
-      : { userId, limit: 1 };
-
-    const rawResults = await withTimeout(
-      memory.search(query, options),
-      mem0TimeoutMs
-    );
-    
-    const results = normalizeSearchResults(rawResults);
-    if (results.length > 0) {
-      const content = mem0SimpleMode 
-        ? (results[0].content || results[0].memory || String(results[0]))
-        : results[0].memory;
-      return { id, content: String(content), via: 'mem0' };
-    }
-  } catch (err: any) {
-    logger.error(`Mem0 search failed: ${err.message}`);
-  }
-  return null;
-}
-
-/**
- * Search notes in Mem0 with proper result handling
- */
-async function searchNotesInMem0(query: string): Promise<any[]> {
-  try {
-    const options = mem0SimpleMode 
-      ? { user_id: userId, limit: 10 }
-      : { userId, limit: 10 };
-
-    const rawResults = await withTimeout(
-      memory.search(query, options),
-      mem0TimeoutMs
-    );
-    
-    return normalizeSearchResults(rawResults);
-  } catch (err: any) {
-    logger.error(`Mem0 search error: ${err.message}`);
-    throw err;
-  }
+if (localMode) {
+  logger.info('Local mode: offline embeddings, no Mem0 or OpenAI calls');
+} else {
+  logger.info(`Mem0 initialized in ${mem0SimpleMode ? 'SIMPLE' : 'ADVANCED'} mode`);
 }
 
-/**
- * Retry queue flush
- */
-async function flushRetryQueue(): Promise<void> {
-  try {
-    const failed = await db.all<{ id: string; payload: string }[]>('SELECT * FROM retry_queue');
-    if (!failed.length) return;
-    
-    logger.info(`Flushing ${failed.length} retry queue item(s)`);
-    for (const row of failed) {
-      try {
-        const { id, title, content }: { id: string; title: string; content: string } = JSON.parse(row.payload);
-        await syncNoteToMem0(id, title, content);
-        await db.run('DELETE FROM retry_queue WHERE id = ?', row.id);
-        logger.info(`Retry synced ${row.id}`);
-      } catch (err: any) {
-        logger.warn(`Retry still failing ${row.id}: ${err.message}`);
-      }
-    }
-  } catch (err: any) {
-    logger.error(`Retry queue flush error: ${err.message}`);
+// Link type vocabulary (built-in types plus optional user config)
+const linkTypesFile = expandHomeDir(process.env.MCP_LINK_TYPES_FILE || path.join(dbDir, 'link-types.json'));
+try {
+  const customLinkTypes = loadLinkTypeConfig(linkTypesFile);
+  if (customLinkTypes.length) {
+    logger.info(`Loaded ${customLinkTypes.length} custom link type(s) from ${linkTypesFile}`);
   }
+} catch (err: any) {
+  console.error(`[MCP] Invalid link type config ${linkTypesFile}: ${err.message}`);
+  process.exit(1);
 }
 
-// Create MCP server
-const server = new Server(
-  stdioServerInfo,
-  {
-    capabilities: stdioCapabilities,
+// Circuit breaker shared by all Mem0 calls: while open, search and get fall
+// back to SQLite at once and index writes are queued for retry
+const mem0Breaker = new CircuitBreaker('Mem0', {
+  failureThreshold: mem0BreakerThreshold,
+  cooldownMs: mem0BreakerCooldownMs,
+  isFailure: isMem0Outage,
+  onStateChange: (from, to, reason) => {
+    const message = `Mem0 circuit ${from} -> ${to}: ${reason}`;
+    if (to === 'closed') logger.info(message);
+    else logger.warn(message);
   }
-);
-
-// Tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: mcpToolsSchema
-  };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  switch (name) {
-    case 'zk_create_note':
-      const { title, content, tags } = args as { title: string, content: string, tags?: string[] };
-      if (typeof title !== 'string' || typeof content !== 'string') {
-        throw new Error('Invalid payload: title and content must be strings');
-      }
-      const id = uuidv4();
-      
-      // Store in SQLite
-      await db.run(
-        `INSERT INTO notes (id,title,content,tags,links) VALUES (?,?,?,?,?)`,
-        id, title, content,
-        tags ? JSON.stringify(tags) : null,
-        JSON.stringify([])
-      );
-      
-      // Store in Mem0 (async with retry on failure)
-      syncNoteToMem0(id, title, content);
-      
-      return {
-        content: [{ type: 'text', text: `Created note "${title}" with ID: ${id}` }]
-      };
-
-    case 'zk_get_note':
-      if (!args) {
-        throw new Error('Arguments required');
-      }
-      const noteId = args.id as string;
-      if (!noteId) {
-        throw new Error('Note ID required');
-      }
-      
-      // Try Mem0 first
-      const memNote = await getNoteFromMem0(noteId);
-      if (memNote) {
-        return {
-          content: [{ type: 'text', text: `Note: ${memNote.content}` }]
-        };
-      }
-      
-      // Fallback to SQLite
-      const row = await db.get(`SELECT * FROM notes WHERE id = ?`, noteId);
-      if (row) {
-        return {
-          content: [{ type: 'text', text: `Note: ${row.title}\n${row.content}` }]
-        };
-      } else {
-        throw new Error('Note not found');
-      }
-
-    case 'zk_search_notes':
-      if (!args) {
-        throw new Error('Arguments required');
-      }
-      const query = args.query as string;
-      if (typeof query !== 'string') {
-        throw new Error('Invalid query: must be a string');
-      }
-      
-      try {
-        const results = await searchNotesInMem0(query);
-        const notes = formatSearchResults(results, mem0SimpleMode);
-        return {
-          content: [{ type: 'text', text: `Search results:\n${notes}` }]
-        };
-      } catch (err: any) {
-        logger.warn(`Mem0 search error, using SQLite fallback`);
-        const rows = await db.all(
-          `SELECT * FROM notes WHERE title LIKE ? OR content LIKE ? ORDER BY created_at DESC LIMIT 10`,
-          `%${query}%`, `%${query}%`
-        );
-        const notes = rows.map(row => `ID: ${row.id}\nTitle: ${row.title}\nContent: ${row.content}`).join('\n\n');
-        return {
-          content: [{ type: 'text', text: `Search results (SQLite):\n${notes}` }]
-        };
-      }
+// Storage and semantic index, set up in main(); tools run in MCP_VAULT unless given a vault argument
+let repo: NoteRepository;
+let vaults: VaultContexts;
+let ctx: ToolContext;
 
-    case 'zk_create_link':
-      const { from, to, type } = args as { from: string, to: string, type: string };
-      if (!from || !to || !type) {
-        throw new Error('Missing fields: from, to, and type are required');
-      }
-      
-      const origin = await db.get(`SELECT links FROM notes WHERE id=?`, from);
-      const target = await db.get(`SELECT links FROM notes WHERE id=?`, to);
-      if (!origin || !target) {
-        throw new Error('One or both notes not found');
-      }
-      
-      const oLinks = JSON.parse(origin.links);
-      const tLinks = JSON.parse(target.links);
-      oLinks.push({ from, to, type });
-      tLinks.push({ from: to, to: from, type: `${type}_by` });
-      
-      await db.run(`UPDATE notes SET links=? WHERE id=?`, JSON.stringify(oLinks), from);
-      await db.run(`UPDATE notes SET links=? WHERE id=?`, JSON.stringify(tLinks), to);
-      
-      return {
-        content: [{ type: 'text', text: `Created ${type} link from ${from} to ${to}` }]
-      };
-
-    case 'zk_get_methodology':
-      return {
-        content: [{ 
-          type: 'text', 
-          text: `Zettelkasten Methodology with Mem0\n\n${JSON.stringify(methodologyResponse, null, 2)}` 
-        }]
-      };
-
-    default:
-      throw new Error(`Unknown tool: ${name}`);
-  }
-});
+// Create MCP server (tools, resources and prompts)
+const mcp = createMcpServer(stdioServerInfo, () => ctx, { transport: 'stdio' });
 
 // Main function
 async function main() {
   try {
-    await initDB();
-    logger.info('Database initialized');
+    const sqlite = await openSqliteRepository(storageFile);
+    repo = sqlite;
+    logger.info(`SQLite initialized at ${storageFile}`);
+    
+    // Semantic index per vault - Mem0 (simple or advanced) or fully local
+    const indexFor = semanticIndexFactory(sqlite.db, {
+      localMode, simpleMode: mem0SimpleMode, mem0ApiKey, openaiApiKey, dataDir: dbDir, userId, timeoutMs: mem0TimeoutMs,
+      breaker: mem0Breaker
+    });
+    // One audit log for every vault
+    const audit = auditLog ? new AuditLog(sqlite.db, { redact: auditRedact, logger }) : undefined;
+    vaults = new VaultContexts(sqlite, vaultRepo => {
+      const index = indexFor(vaultRepo.vault);
+      return {
+        repo: vaultRepo, index, sync: new SemanticSync(vaultRepo, index, logger), logger, audit,
+        onNoteChange: change => mcp.notifyNoteChange(change)
+      };
+    });
+    ctx = await vaults.ensure(defaultVault);
+    logger.info(`Vault: ${defaultVault}`);
+    
+    // Notes created while the local vector store was missing or reset
+    if (localMode || !mem0SimpleMode) {
+      (async () => {
+        for (const vaultCtx of await vaults.all()) {
+          await vaultCtx.sync.reindexMissing();
+        }
+      })().catch(err => logger.error(`Startup re-index failed: ${err.message}`));
+    }
     
-    // Start retry queue flush interval
-    setInterval(flushRetryQueue, 10000).unref();
+    // Start retry queue flush interval (every vault); a tick is skipped while the last flush still runs
+    setInterval(() => {
+      vaults.flushQueues().catch(err => logger.error(`Retry queue flush failed: ${err.message}`));
+    }, 10000).unref();
     logger.info('Retry queue started');
     
     const transport = new StdioServerTransport();
-    await server.connect(transport);
+    await mcp.server.connect(transport);
     logger.info('Server started on stdio');
   } catch (error) {
     logger.error(`Server error: ${error}`);
@@ -400,8 +192,8 @@ async function main() {
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully');
-  if (db) {
-    await db.close();
+  if (repo) {
+    await repo.close();
     logger.info('Database closed');
   }
   process.exit(0);
@@ -409,8 +201,8 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully');
-  if (db) {
-    await db.close();
+  if (repo) {
+    await repo.close();
     logger.info('Database closed');
   }
   process.exit(0);
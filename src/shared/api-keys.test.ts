@@ -0,0 +1,77 @@
+/**
+ * API keys of the HTTP server: tool scopes and key lifecycle (api-keys.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migrate, openDatabase } from './database.js';
+import { NotesDatabase } from './types.js';
+import { mcpToolsSchema } from './constants.js';
+import {
+  ApiScope, toolScope, hasScope, parseScopes, createApiKey, authenticateApiKey, revokeApiKey, listApiKeys
+} from './api-keys.js';
+
+async function openKeys(): Promise<NotesDatabase> {
+  const db = await openDatabase(':memory:');
+  await migrate(db);
+  return db;
+}
+
+test('read tools need read, note edits need write, and everything else needs admin', () => {
+  const byScope: Record<ApiScope, string[]> = { read: [], write: [], admin: [] };
+  for (const tool of mcpToolsSchema) {
+    byScope[toolScope(tool.name)].push(tool.name);
+  }
+  assert.deepEqual(byScope.read.sort(), [
+    'zk_find_path', 'zk_get_methodology', 'zk_get_neighbors', 'zk_get_note', 'zk_get_note_history',
+    'zk_list_vaults', 'zk_search_notes'
+  ]);
+  assert.deepEqual(byScope.write.sort(), [
+    'zk_create_link', 'zk_create_note', 'zk_delete_note', 'zk_restore_note', 'zk_update_note'
+  ]);
+  assert.deepEqual(byScope.admin.sort(), ['zk_audit_query', 'zk_create_vault', 'zk_reindex', 'zk_sync_status']);
+  assert.equal(toolScope('zk_not_a_tool'), 'admin');
+});
+
+test('write implies read and admin implies both', () => {
+  assert.equal(hasScope(['read'], 'read'), true);
+  assert.equal(hasScope(['read'], 'write'), false);
+  assert.equal(hasScope(['write'], 'read'), true);
+  assert.equal(hasScope(['write'], 'admin'), false);
+  assert.equal(hasScope(['admin'], 'write'), true);
+  assert.equal(hasScope([], 'read'), false);
+});
+
+test('scope lists must be non-empty and name known scopes', () => {
+  assert.deepEqual(parseScopes(['read', 'write', 'read']), ['read', 'write']);
+  assert.throws(() => parseScopes([]), /Invalid scopes: give one or more of read, write, admin/);
+  assert.throws(() => parseScopes('read'), /Invalid scopes/);
+  assert.throws(() => parseScopes(['root']), /Unknown scope "root"/);
+});
+
+test('a key authenticates until it is revoked, and its use is recorded at most once a minute', async () => {
+  const db = await openKeys();
+  try {
+    const { key, record } = await createApiKey(db, { name: 'ci', scopes: ['read'] });
+    assert.match(key, new RegExp(`^zk_${record.id}_`));
+    assert.equal(record.id.length, 16);
+    assert.equal(record.last_used_at, null);
+
+    const first = (await authenticateApiKey(db, key))!;
+    assert.deepEqual(first.scopes, ['read']);
+    assert.ok(first.last_used_at);
+
+    await db.run(`UPDATE api_keys SET last_used_at = '2000-01-01 00:00:00' WHERE id = ?`, record.id);
+    assert.notEqual((await authenticateApiKey(db, key))!.last_used_at, '2000-01-01 00:00:00');
+    const recent = (await listApiKeys(db))[0].last_used_at;
+    assert.equal((await authenticateApiKey(db, key))!.last_used_at, recent);
+
+    assert.equal(await authenticateApiKey(db, `${key}x`), undefined);
+    assert.equal(await revokeApiKey(db, record.id), true);
+    assert.equal(await revokeApiKey(db, record.id), false);
+    assert.equal(await authenticateApiKey(db, key), undefined);
+    await assert.rejects(revokeApiKey(db, 'missing'), /API key not found/);
+  } finally {
+    await db.close();
+  }
+});
@@ -0,0 +1,201 @@
+/**
+ * API keys for the HTTP server
+ *
+ * Keys look like `zk_<id>_<secret>`. Only their SHA-256 hash is stored, in the
+ * `api_keys` table; the key itself is shown once, when it is created. Each key
+ * carries scopes and optionally its own rate limit:
+ *
+ *   read   search, get and browse notes, resources and prompts
+ *   write  create, update, link, archive and delete notes (implies read)
+ *   admin  every tool, including index maintenance and vault creation
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { NotesDatabase } from './types.js';
+import { sqliteTimestamp } from './utils.js';
+
+export type ApiScope = 'read' | 'write' | 'admin';
+
+export const API_SCOPES: ApiScope[] = ['read', 'write', 'admin'];
+
+/** A stored key, without its hash */
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  /** Requests per rate limit window; null uses the server default */
+  rate_limit: number | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiScope[];
+  rateLimit?: number;
+}
+
+interface ApiKeyRow extends Omit<ApiKey, 'scopes'> {
+  scopes: string;
+}
+
+/** Random bytes in a key ID, which is the primary key: 64 bits make a clash practically impossible */
+const KEY_ID_BYTES = 8;
+
+/** `last_used_at` is only rewritten once it is this old, so most requests do not write */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** Scope each tool needs; tools not listed need admin */
+const TOOL_SCOPES: Record<string, ApiScope> = {
+  zk_search_notes: 'read',
+  zk_get_note: 'read',
+  zk_get_note_history: 'read',
+  zk_get_neighbors: 'read',
+  zk_find_path: 'read',
+  zk_list_vaults: 'read',
+  zk_get_methodology: 'read',
+  zk_create_note: 'write',
+  zk_create_link: 'write',
+  zk_update_note: 'write',
+  zk_delete_note: 'write',
+  zk_restore_note: 'write'
+};
+
+/**
+ * Scope needed to call a tool
+ * @param {string} tool - Tool name
+ * @returns {ApiScope}
+ */
+export function toolScope(tool: string): ApiScope {
+  return TOOL_SCOPES[tool] ?? 'admin';
+}
+
+/**
+ * Whether granted scopes allow an action: admin allows everything, write also allows read
+ * @param {ApiScope[]} granted - Scopes of the key
+ * @param {ApiScope} required - Scope the action needs
+ * @returns {boolean}
+ */
+export function hasScope(granted: ApiScope[], required: ApiScope): boolean {
+  return granted.includes(required) || granted.includes('admin') || (required === 'read' && granted.includes('write'));
+}
+
+/**
+ * Validate a scope list
+ * @param {unknown} value - Requested scopes
+ * @returns {ApiScope[]} Distinct scopes
+ * @throws {Error} If the list is empty or names an unknown scope
+ */
+export function parseScopes(value: unknown): ApiScope[] {
+  if (!Array.isArray(value) || !value.length) {
+    throw new Error(`Invalid scopes: give one or more of ${API_SCOPES.join(', ')}`);
+  }
+  for (const scope of value) {
+    if (!API_SCOPES.includes(scope)) {
+      throw new Error(`Unknown scope "${scope}": use ${API_SCOPES.join(', ')}`);
+    }
+  }
+  return [...new Set(value as ApiScope[])];
+}
+
+/**
+ * Hash stored for a key. Keys are 256-bit random secrets, so a fast hash is enough.
+ * @param {string} key - Full API key
+ * @returns {string} Hex SHA-256
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function fromRow(row: ApiKeyRow): ApiKey {
+  return { ...row, scopes: JSON.parse(row.scopes) };
+}
+
+/**
+ * Mint a key
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {NewApiKey} key - Name, scopes and optional rate limit
+ * @returns {Promise<{ key: string, record: ApiKey }>} The key (shown once) and what is stored about it
+ */
+export async function createApiKey(db: NotesDatabase, key: NewApiKey): Promise<{ key: string; record: ApiKey }> {
+  const id = randomBytes(KEY_ID_BYTES).toString('hex');
+  const secret = `zk_${id}_${randomBytes(32).toString('base64url')}`;
+  await db.run(
+    'INSERT INTO api_keys (id, name, key_hash, scopes, rate_limit) VALUES (?, ?, ?, ?, ?)',
+    id, key.name, hashApiKey(secret), JSON.stringify(key.scopes), key.rateLimit ?? null
+  );
+  const row = await db.get<ApiKeyRow>('SELECT * FROM api_keys WHERE id = ?', id);
+  return { key: secret, record: fromRow(row!) };
+}
+
+/**
+ * Every key, revoked ones included, newest first
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @returns {Promise<ApiKey[]>}
+ */
+export async function listApiKeys(db: NotesDatabase): Promise<ApiKey[]> {
+  const rows = await db.all<ApiKeyRow[]>(
+    `SELECT id, name, scopes, rate_limit, created_at, last_used_at, revoked_at
+     FROM api_keys ORDER BY created_at DESC, id`
+  );
+  return rows.map(fromRow);
+}
+
+/**
+ * The active key matching a presented secret, recording its use to the minute
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} key - Key from the request
+ * @returns {Promise<ApiKey | undefined>} Undefined if unknown or revoked
+ */
+export async function authenticateApiKey(db: NotesDatabase, key: string): Promise<ApiKey | undefined> {
+  const row = await db.get<ApiKeyRow>(
+    `SELECT id, name, scopes, rate_limit, created_at, last_used_at, revoked_at
+     FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL`,
+    hashApiKey(key)
+  );
+  if (!row) {
+    return undefined;
+  }
+  const now = Date.now();
+  if (!row.last_used_at || row.last_used_at < sqliteTimestamp(new Date(now - LAST_USED_RESOLUTION_MS))) {
+    row.last_used_at = sqliteTimestamp(new Date(now));
+    await db.run('UPDATE api_keys SET last_used_at = ? WHERE id = ?', row.last_used_at, row.id);
+  }
+  return fromRow(row);
+}
+
+/**
+ * Revoke a key; requests using it are refused from then on
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} id - Key ID (the part after `zk_`)
+ * @returns {Promise<boolean>} False if the key was already revoked
+ * @throws {Error} 'API key not found'
+ */
+export async function revokeApiKey(db: NotesDatabase, id: string): Promise<boolean> {
+  const row = await db.get<{ revoked_at: string | null }>('SELECT revoked_at FROM api_keys WHERE id = ?', id);
+  if (!row) {
+    throw new Error('API key not found');
+  }
+  if (row.revoked_at) {
+    return false;
+  }
+  await db.run('UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?', id);
+  return true;
+}
+
+/**
+ * Format keys for the CLI
+ * @param {ApiKey[]} keys - Output of listApiKeys
+ * @returns {string}
+ */
+export function formatApiKeys(keys: ApiKey[]): string {
+  if (!keys.length) {
+    return 'No API keys';
+  }
+  return keys.map(key => [
+    `${key.id}  ${key.name}`,
+    `  scopes: ${key.scopes.join(', ')}; rate limit: ${key.rate_limit ?? 'default'}`,
+    `  created ${key.created_at}, last used ${key.last_used_at ?? 'never'}${key.revoked_at ? `, REVOKED ${key.revoked_at}` : ''}`
+  ].join('\n')).join('\n');
+}
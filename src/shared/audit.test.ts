@@ -0,0 +1,80 @@
+/**
+ * Audit log of tool calls: redaction, query parsing and paging (audit.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migrate, openDatabase } from './database.js';
+import { Logger } from './logger.js';
+import { AuditLog, redactArgs, parseAuditQuery } from './audit.js';
+
+const quiet: Logger = { info() {}, warn() {}, error() {}, debug() {} };
+
+test('redacted arguments are replaced at any depth, matched case-insensitively', () => {
+  const args = {
+    title: 'Note',
+    Content: 'secret',
+    tags: ['a', { content: 'nested' }],
+    link: { note: 'why', CONTENT: 'also secret' }
+  };
+  assert.deepEqual(redactArgs(args, new Set(['content'])), {
+    title: 'Note',
+    Content: '[redacted]',
+    tags: ['a', { content: '[redacted]' }],
+    link: { note: 'why', CONTENT: '[redacted]' }
+  });
+  assert.deepEqual(redactArgs({ a: 1, b: { c: 2 } }, new Set(['*'])), { a: '[redacted]', b: '[redacted]' });
+  assert.deepEqual(redactArgs({ n: 3, flag: false, none: null }, new Set()), { n: 3, flag: false, none: null });
+});
+
+test('long strings are cut, with their length noted', () => {
+  const { content } = redactArgs({ content: 'x'.repeat(1500) }, new Set()) as { content: string };
+  assert.equal(content, `${'x'.repeat(1000)}... (1500 chars)`);
+});
+
+test('queries are validated and given defaults', () => {
+  assert.deepEqual(parseAuditQuery({ tool: 'zk_get_note', since: '2024-05-01T12:00:00Z', limit: '1000' }), {
+    tool: 'zk_get_note',
+    transport: undefined,
+    status: undefined,
+    apiKeyId: undefined,
+    vaultId: undefined,
+    client: undefined,
+    since: '2024-05-01 12:00:00',
+    until: undefined,
+    cursor: undefined,
+    limit: 500
+  });
+  assert.equal(parseAuditQuery().limit, 50);
+  assert.throws(() => parseAuditQuery({ transport: 'ftp' }), /Invalid transport: must be one of stdio, http, sse, rest/);
+  assert.throws(() => parseAuditQuery({ status: 'maybe' }), /Invalid status/);
+  assert.throws(() => parseAuditQuery({ cursor: 'abc' }), /Invalid cursor/);
+  assert.throws(() => parseAuditQuery({ since: 'yesterday' }), /Invalid since: must be an ISO 8601 date/);
+});
+
+test('recorded calls are stored redacted and paged newest first', async () => {
+  const db = await openDatabase(':memory:');
+  await migrate(db);
+  try {
+    const audit = new AuditLog(db, { redact: ['Content'], logger: quiet });
+    for (const id of ['a', 'b', 'c']) {
+      await audit.record({
+        transport: 'http', tool: 'zk_create_note', args: { id, content: 'secret' }, status: 'ok', durationMs: 5
+      });
+    }
+    await audit.record({ transport: 'stdio', tool: 'zk_get_note', args: { id: 'a' }, status: 'error', error: 'Note not found', durationMs: 1 });
+
+    const first = await audit.query(parseAuditQuery({ tool: 'zk_create_note', limit: 2 }));
+    assert.deepEqual(first.entries.map(entry => entry.arguments), [{ id: 'c', content: '[redacted]' }, { id: 'b', content: '[redacted]' }]);
+    assert.ok(first.next_cursor);
+
+    const second = await audit.query(parseAuditQuery({ tool: 'zk_create_note', limit: 2, cursor: first.next_cursor }));
+    assert.deepEqual(second.entries.map(entry => entry.arguments!.id), ['a']);
+    assert.equal(second.next_cursor, null);
+
+    const errors = await audit.query(parseAuditQuery({ status: 'error' }));
+    assert.deepEqual(errors.entries.map(entry => [entry.transport, entry.error]), [['stdio', 'Note not found']]);
+  } finally {
+    await db.close();
+  }
+});
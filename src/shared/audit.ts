@@ -0,0 +1,297 @@
+/**
+ * Audit log of tool calls
+ *
+ * Every tool call over stdio, MCP over HTTP (Streamable HTTP or SSE) or the
+ * REST routes is recorded in the `audit_log` table with who made it (client
+ * from `initialize` or the User-Agent, API key, remote address), the vault,
+ * its arguments, whether it succeeded and how long it took. Argument values
+ * whose names are listed in MCP_AUDIT_REDACT are replaced before they are
+ * stored, and long strings are truncated.
+ */
+
+import { NotesDatabase } from './types.js';
+import { Logger } from './logger.js';
+import { toTimestamp } from './utils.js';
+
+export type AuditTransport = 'stdio' | 'http' | 'sse' | 'rest';
+
+export type AuditStatus = 'ok' | 'error' | 'denied';
+
+export const AUDIT_TRANSPORTS: AuditTransport[] = ['stdio', 'http', 'sse', 'rest'];
+export const AUDIT_STATUSES: AuditStatus[] = ['ok', 'error', 'denied'];
+
+export const DEFAULT_AUDIT_LIMIT = 50;
+export const MAX_AUDIT_LIMIT = 500;
+
+/** Strings in stored arguments are cut to this length */
+const MAX_AUDIT_STRING = 1000;
+
+const REDACTED = '[redacted]';
+
+/** Who made a call, as far as the transport knows */
+export interface AuditCaller {
+  transport: AuditTransport;
+  /** Client name and version from `initialize`, or the User-Agent of a REST request */
+  client?: { name: string; version?: string };
+  /** Remote IP address (HTTP) */
+  address?: string;
+}
+
+export interface NewAuditEntry extends AuditCaller {
+  apiKeyId?: string;
+  vault?: string;
+  tool: string;
+  args: Record<string, any>;
+  status: AuditStatus;
+  error?: string;
+  durationMs: number;
+}
+
+/** A stored entry */
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  transport: AuditTransport;
+  client_name: string | null;
+  client_version: string | null;
+  remote_address: string | null;
+  api_key_id: string | null;
+  vault_id: string | null;
+  tool: string;
+  /** Arguments after redaction */
+  arguments: Record<string, any> | null;
+  status: AuditStatus;
+  error: string | null;
+  duration_ms: number;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  transport?: AuditTransport;
+  status?: AuditStatus;
+  apiKeyId?: string;
+  vaultId?: string;
+  /** Client name */
+  client?: string;
+  /** SQLite timestamp, inclusive */
+  since?: string;
+  /** SQLite timestamp, exclusive */
+  until?: string;
+  /** Only entries older than this entry ID (next_cursor of the previous page) */
+  cursor?: number;
+  limit: number;
+}
+
+/** A page of entries, newest first */
+export interface AuditPage {
+  entries: AuditEntry[];
+  /** Cursor of the next (older) page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface AuditLogOptions {
+  /** Argument names whose values are not stored (case-insensitive); `*` redacts every value */
+  redact: string[];
+  logger: Logger;
+}
+
+interface AuditRow extends Omit<AuditEntry, 'arguments'> {
+  arguments: string | null;
+}
+
+/**
+ * Copy of tool arguments with redacted values replaced and long strings cut,
+ * at any depth
+ * @param {unknown} value - Arguments, or a value inside them
+ * @param {Set<string>} redact - Lower-case argument names to redact; `*` redacts all
+ * @returns {unknown}
+ */
+export function redactArgs(value: unknown, redact: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_AUDIT_STRING
+      ? `${value.slice(0, MAX_AUDIT_STRING)}... (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactArgs(item, redact));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      redact.has('*') || redact.has(key.toLowerCase()) ? REDACTED : redactArgs(item, redact)
+    ]));
+  }
+  return value;
+}
+
+function optionalString(args: Record<string, any>, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${key}: must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Read an audit query from tool arguments or REST query parameters (snake_case keys)
+ * @param {Record<string, any>} args - Raw arguments
+ * @returns {AuditQuery} Validated query with defaults applied
+ * @throws {Error} If a filter has the wrong type or value
+ */
+export function parseAuditQuery(args: Record<string, any> = {}): AuditQuery {
+  const transport = optionalString(args, 'transport');
+  if (transport !== undefined && !AUDIT_TRANSPORTS.includes(transport as AuditTransport)) {
+    throw new Error(`Invalid transport: must be one of ${AUDIT_TRANSPORTS.join(', ')}`);
+  }
+  const status = optionalString(args, 'status');
+  if (status !== undefined && !AUDIT_STATUSES.includes(status as AuditStatus)) {
+    throw new Error(`Invalid status: must be one of ${AUDIT_STATUSES.join(', ')}`);
+  }
+  const cursor = optionalString(args, 'cursor');
+  if (cursor !== undefined && !/^\d+$/.test(cursor)) {
+    throw new Error('Invalid cursor: use next_cursor of the previous page');
+  }
+  const limit = args.limit === undefined || args.limit === '' ? DEFAULT_AUDIT_LIMIT : Number(args.limit);
+  if (!Number.isFinite(limit)) {
+    throw new Error('Invalid limit: must be a number');
+  }
+  return {
+    tool: optionalString(args, 'tool'),
+    transport: transport as AuditTransport | undefined,
+    status: status as AuditStatus | undefined,
+    apiKeyId: optionalString(args, 'api_key_id'),
+    vaultId: optionalString(args, 'vault_id'),
+    client: optionalString(args, 'client'),
+    since: toTimestamp(args.since, 'since'),
+    until: toTimestamp(args.until, 'until'),
+    cursor: cursor === undefined ? undefined : Number(cursor),
+    limit: Math.min(Math.max(Math.floor(limit), 1), MAX_AUDIT_LIMIT)
+  };
+}
+
+/**
+ * Store an entry
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {NewAuditEntry} entry - The call, with arguments already redacted
+ * @returns {Promise<void>}
+ */
+export async function insertAuditEntry(db: NotesDatabase, entry: NewAuditEntry): Promise<void> {
+  await db.run(
+    `INSERT INTO audit_log
+       (transport, client_name, client_version, remote_address, api_key_id, vault_id, tool, arguments, status, error, duration_ms)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    entry.transport, entry.client?.name ?? null, entry.client?.version ?? null, entry.address ?? null,
+    entry.apiKeyId ?? null, entry.vault ?? null, entry.tool, JSON.stringify(entry.args),
+    entry.status, entry.error ?? null, entry.durationMs
+  );
+}
+
+/**
+ * A page of entries matching a query, newest first
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {AuditQuery} query - Filters, cursor and page size
+ * @returns {Promise<AuditPage>}
+ */
+export async function queryAuditLog(db: NotesDatabase, query: AuditQuery): Promise<AuditPage> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const filters: Array<[string, unknown]> = [
+    ['tool = ?', query.tool],
+    ['transport = ?', query.transport],
+    ['status = ?', query.status],
+    ['api_key_id = ?', query.apiKeyId],
+    ['vault_id = ?', query.vaultId],
+    ['client_name = ?', query.client],
+    ['created_at >= ?', query.since],
+    ['created_at < ?', query.until],
+    ['id < ?', query.cursor]
+  ];
+  for (const [condition, value] of filters) {
+    if (value !== undefined) {
+      conditions.push(condition);
+      params.push(value);
+    }
+  }
+  // One extra row tells whether there is another page
+  const rows = await db.all<AuditRow[]>(
+    `SELECT * FROM audit_log ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY id DESC LIMIT ?`,
+    ...params, query.limit + 1
+  );
+  const entries = rows.slice(0, query.limit).map(row => ({
+    ...row,
+    arguments: row.arguments === null ? null : JSON.parse(row.arguments)
+  }));
+  return {
+    entries,
+    next_cursor: rows.length > query.limit ? String(entries[entries.length - 1].id) : null
+  };
+}
+
+/**
+ * Format a page of entries for a text tool response
+ * @param {AuditPage} page - Output of queryAuditLog
+ * @returns {string}
+ */
+export function formatAuditPage(page: AuditPage): string {
+  if (!page.entries.length) {
+    return 'No audit entries';
+  }
+  const lines = page.entries.map(entry => {
+    const who = [
+      entry.client_name && `client ${entry.client_name}${entry.client_version ? ` ${entry.client_version}` : ''}`,
+      entry.api_key_id && `key ${entry.api_key_id}`,
+      entry.remote_address && `from ${entry.remote_address}`
+    ].filter(Boolean).join(', ');
+    return [
+      `#${entry.id} ${entry.created_at} ${entry.tool} [${entry.status}] ${entry.duration_ms}ms via ${entry.transport}`,
+      `${entry.vault_id ? ` in ${entry.vault_id}` : ''}${who ? ` (${who})` : ''}`,
+      `\n  args: ${JSON.stringify(entry.arguments)}`,
+      entry.error ? `\n  error: ${entry.error}` : ''
+    ].join('');
+  });
+  return page.next_cursor
+    ? `${lines.join('\n')}\n\nMore entries: cursor=${page.next_cursor}`
+    : lines.join('\n');
+}
+
+/**
+ * Audit log shared by every vault: redacts and stores entries, answers queries
+ */
+export class AuditLog {
+  private readonly redact: Set<string>;
+
+  /**
+   * @param {NotesDatabase} db - Open SQLite handle
+   * @param {AuditLogOptions} options - Redacted argument names and logger
+   */
+  constructor(private readonly db: NotesDatabase, private readonly options: AuditLogOptions) {
+    this.redact = new Set(options.redact.map(name => name.toLowerCase()));
+  }
+
+  /**
+   * Store an entry. Failures are logged, never thrown: a call is not failed
+   * because it could not be audited.
+   * @param {NewAuditEntry} entry - The call, arguments as received
+   * @returns {Promise<void>}
+   */
+  async record(entry: NewAuditEntry): Promise<void> {
+    try {
+      await insertAuditEntry(this.db, { ...entry, args: redactArgs(entry.args, this.redact) as Record<string, any> });
+    } catch (err: any) {
+      this.options.logger.warn(`[Audit] Could not record ${entry.tool} call: ${err.message}`);
+    }
+  }
+
+  /**
+   * A page of entries, newest first
+   * @param {AuditQuery} query - Filters, cursor and page size
+   * @returns {Promise<AuditPage>}
+   */
+  async query(query: AuditQuery): Promise<AuditPage> {
+    return queryAuditLog(this.db, query);
+  }
+}
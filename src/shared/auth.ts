@@ -0,0 +1,142 @@
+/**
+ * API key authentication and per-key rate limiting for the HTTP server
+ *
+ * Clients send their key as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * The middleware puts the authenticated key in `res.locals.apiKey`, where the
+ * routes read its scopes. Requests without a key are refused with 401 unless
+ * authentication is optional (MCP_AUTH_REQUIRED=false); a key that is sent is
+ * always checked. Refused requests are counted per IP by authFailureRateLimit,
+ * which turns a client away before its key is even looked up once it has
+ * failed too often.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import rateLimit from 'express-rate-limit';
+import { NotesDatabase } from './types.js';
+import { Logger } from './logger.js';
+import { ApiKey, authenticateApiKey } from './api-keys.js';
+
+/** Alternative to the Authorization header, for clients that cannot set it */
+export const API_KEY_HEADER = 'x-api-key';
+
+export interface AuthOptions {
+  /** Database holding the keys; undefined until it is open */
+  getDb: () => NotesDatabase | undefined;
+  /** Whether requests without a key are refused */
+  required: boolean;
+  /** Paths served without a key, e.g. /health */
+  publicPaths: string[];
+  logger: Logger;
+}
+
+export interface AuthFailureRateLimitOptions {
+  windowMs: number;
+  /** Refused requests per IP and window before every request from that IP is turned away */
+  limit: number;
+}
+
+export interface KeyRateLimitOptions {
+  windowMs: number;
+  /** Requests per window for keys without their own limit, and per IP for requests without a key */
+  defaultLimit: number;
+}
+
+/**
+ * API key sent with a request
+ * @param {Request} req - Express request
+ * @returns {string | undefined}
+ */
+export function requestApiKey(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.header('authorization') ?? '');
+  return match ? match[1] : req.header(API_KEY_HEADER) || undefined;
+}
+
+/**
+ * The key a request was authenticated with
+ * @param {Response} res - Express response of the request
+ * @returns {ApiKey | undefined} Undefined for requests without a key
+ */
+export function authenticatedKey(res: Response): ApiKey | undefined {
+  return res.locals.apiKey;
+}
+
+/**
+ * Refuse a request for lack of a valid key
+ */
+function unauthorized(res: Response, message: string): void {
+  res.status(401).set('WWW-Authenticate', 'Bearer realm="mcp-zettelkasten"').json({ error: message });
+}
+
+/**
+ * Middleware authenticating requests by API key
+ * @param {AuthOptions} options - Key store, whether a key is required, public paths and logger
+ * @returns {RequestHandler}
+ */
+export function apiKeyAuth(options: AuthOptions): RequestHandler {
+  const { getDb, required, publicPaths, logger } = options;
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (publicPaths.includes(req.path)) {
+      next();
+      return;
+    }
+    const presented = requestApiKey(req);
+    if (!presented) {
+      if (required) unauthorized(res, 'API key required');
+      else next();
+      return;
+    }
+    const db = getDb();
+    if (!db) {
+      res.status(503).json({ error: 'Server starting' });
+      return;
+    }
+    try {
+      const key = await authenticateApiKey(db, presented);
+      if (!key) {
+        logger.warn(`[Auth] Invalid or revoked API key from ${req.ip}`);
+        unauthorized(res, 'Invalid or revoked API key');
+        return;
+      }
+      res.locals.apiKey = key;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+/**
+ * Rate limiter counting the requests apiKeyAuth refuses, per IP. Must run
+ * before apiKeyAuth, so that a client over the limit costs no key lookup.
+ * @param {AuthFailureRateLimitOptions} options - Window and limit
+ * @returns {RequestHandler}
+ */
+export function authFailureRateLimit(options: AuthFailureRateLimitOptions): RequestHandler {
+  return rateLimit({
+    windowMs: options.windowMs,
+    limit: options.limit,
+    keyGenerator: (req: Request) => `auth:${req.ip}`,
+    // Only refusals count
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (_req: Request, res: Response) => res.statusCode !== 401,
+    message: { error: 'Too many requests with a missing or invalid API key' }
+  });
+}
+
+/**
+ * Rate limiter counting requests per API key, with each key's own limit when
+ * it has one. Requests without a key, which only get this far when
+ * authentication is optional, are counted per IP. Must run after apiKeyAuth.
+ * @param {KeyRateLimitOptions} options - Window and default limit
+ * @returns {RequestHandler}
+ */
+export function keyRateLimit(options: KeyRateLimitOptions): RequestHandler {
+  return rateLimit({
+    windowMs: options.windowMs,
+    limit: (_req: Request, res: Response) => authenticatedKey(res)?.rate_limit ?? options.defaultLimit,
+    keyGenerator: (req: Request, res: Response) => {
+      const key = authenticatedKey(res);
+      return key ? `key:${key.id}` : `ip:${req.ip}`;
+    }
+  });
+}
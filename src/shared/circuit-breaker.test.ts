@@ -0,0 +1,93 @@
+/**
+ * Circuit breaker states and the calls let through in each (CircuitBreaker)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker, CircuitOpenError, CircuitState } from './circuit-breaker.js';
+
+const fail = () => Promise.reject(new Error('unavailable'));
+const succeed = () => Promise.resolve('ok');
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('consecutive failures open the circuit, which then fails fast', async () => {
+  const changes: Array<[CircuitState, CircuitState]> = [];
+  const breaker = new CircuitBreaker('Test', {
+    failureThreshold: 2,
+    cooldownMs: 60 * 1000,
+    onStateChange: (from, to) => changes.push([from, to])
+  });
+  await assert.rejects(breaker.call(fail), /unavailable/);
+  assert.equal(breaker.state, 'closed');
+  await assert.rejects(breaker.call(fail), /unavailable/);
+  assert.equal(breaker.state, 'open');
+
+  let called = false;
+  await assert.rejects(breaker.call(async () => { called = true; }), CircuitOpenError);
+  assert.equal(called, false);
+  assert.deepEqual(changes, [['closed', 'open']]);
+
+  const snapshot = breaker.snapshot();
+  assert.equal(snapshot.consecutiveFailures, 2);
+  assert.equal(snapshot.lastError, 'unavailable');
+  assert.ok(snapshot.retryAt);
+});
+
+test('a success resets the count of consecutive failures', async () => {
+  const breaker = new CircuitBreaker('Test', { failureThreshold: 2, cooldownMs: 60 * 1000 });
+  await assert.rejects(breaker.call(fail));
+  assert.equal(await breaker.call(succeed), 'ok');
+  await assert.rejects(breaker.call(fail));
+  assert.equal(breaker.state, 'closed');
+});
+
+test('after the cool-down one trial call decides whether the circuit closes or reopens', async () => {
+  const changes: CircuitState[] = [];
+  const breaker = new CircuitBreaker('Test', {
+    failureThreshold: 1,
+    cooldownMs: 20,
+    onStateChange: (_from, to) => changes.push(to)
+  });
+  await assert.rejects(breaker.call(fail));
+  await sleep(30);
+  assert.equal(breaker.state, 'half-open');
+  await assert.rejects(breaker.call(fail), /unavailable/);
+  assert.equal(breaker.state, 'open');
+
+  await sleep(30);
+  assert.equal(await breaker.call(succeed), 'ok');
+  assert.equal(breaker.state, 'closed');
+  assert.deepEqual(changes, ['open', 'half-open', 'open', 'half-open', 'closed']);
+});
+
+test('other calls fail fast while the trial runs, with a retry time in the future', async () => {
+  const breaker = new CircuitBreaker('Test', { failureThreshold: 1, cooldownMs: 20 });
+  await assert.rejects(breaker.call(fail));
+  await sleep(30);
+
+  let finish!: () => void;
+  const trial = breaker.call(() => new Promise<void>(resolve => { finish = resolve; }));
+  const started = Date.now();
+  await assert.rejects(breaker.call(succeed), (err: unknown) => {
+    assert.ok(err instanceof CircuitOpenError);
+    assert.match(err.message, /trial call running/);
+    assert.ok(err.retryAt.getTime() >= started);
+    return true;
+  });
+  finish();
+  await trial;
+  assert.equal(breaker.state, 'closed');
+});
+
+test('errors that isFailure rejects pass through without counting', async () => {
+  const breaker = new CircuitBreaker('Test', {
+    failureThreshold: 1,
+    cooldownMs: 60 * 1000,
+    isFailure: err => !(err instanceof Error && err.message === 'not found')
+  });
+  await assert.rejects(breaker.call(() => Promise.reject(new Error('not found'))), /not found/);
+  assert.equal(breaker.state, 'closed');
+  assert.equal(breaker.snapshot().consecutiveFailures, 0);
+  await assert.rejects(breaker.call(fail));
+  assert.equal(breaker.state, 'open');
+});
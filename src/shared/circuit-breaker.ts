@@ -0,0 +1,160 @@
+/**
+ * Circuit breaker for calls to a remote service (Mem0)
+ *
+ * closed: calls go through; `failureThreshold` consecutive failures open it.
+ * open: calls fail immediately with CircuitOpenError until `cooldownMs` passed.
+ * half-open: one trial call goes through; success closes the circuit, failure
+ * opens it for another cool-down. Other calls fail fast meanwhile.
+ *
+ * Only errors that `isFailure` accepts count as failures; the others (e.g. a
+ * request the service rejected) are passed on without changing the state.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial call is let through */
+  cooldownMs: number;
+  /** Whether an error means the service is unavailable; every error does by default */
+  isFailure?: (err: unknown) => boolean;
+  /** Called on every state change */
+  onStateChange?: (from: CircuitState, to: CircuitState, reason: string) => void;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30 * 1000
+};
+
+/** Breaker state as reported on /health */
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  /** ISO time the circuit last opened */
+  openedAt: string | null;
+  /** ISO time the next trial call is allowed, while open */
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Thrown instead of calling the service while the circuit is open, or while
+ * the trial call of a half-open circuit is running
+ */
+export class CircuitOpenError extends Error {
+  /**
+   * @param {string} name - Breaker name
+   * @param {Date} retryAt - Earliest time a call may be let through
+   * @param {boolean} [trialRunning] - Whether a half-open circuit is waiting for its trial call
+   */
+  constructor(name: string, readonly retryAt: Date, trialRunning = false) {
+    super(trialRunning
+      ? `${name} circuit half-open, trial call running; retry after ${retryAt.toISOString()}`
+      : `${name} circuit open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private current: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(readonly name: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.current;
+    if (from === to) return;
+    this.current = to;
+    this.options.onStateChange?.(from, to, reason);
+  }
+
+  /** Current state; an open circuit whose cool-down has passed reports half-open */
+  get state(): CircuitState {
+    if (this.current === 'open' && Date.now() - this.openedAt! >= this.options.cooldownMs) {
+      this.transition('half-open', 'cool-down elapsed');
+    }
+    return this.current;
+  }
+
+  private open(reason: string): void {
+    this.openedAt = Date.now();
+    this.transition('open', reason);
+  }
+
+  private onSuccess(): void {
+    this.failures = 0;
+    this.transition('closed', 'call succeeded');
+  }
+
+  private onFailure(err: unknown): void {
+    this.failures++;
+    this.lastError = err instanceof Error ? err.message : String(err);
+    if (this.current === 'half-open') {
+      this.open(`trial call failed: ${this.lastError}`);
+    } else if (this.failures >= this.options.failureThreshold) {
+      this.open(`${this.failures} consecutive failures, last: ${this.lastError}`);
+    }
+  }
+
+  /**
+   * Run a call through the breaker
+   * @template T
+   * @param {() => Promise<T>} fn - The call to the service
+   * @returns {Promise<T>} Result of `fn`
+   * @throws {CircuitOpenError} Without calling `fn` while the circuit is open or a trial call is running
+   */
+  async call<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open') {
+      throw new CircuitOpenError(this.name, new Date(this.openedAt! + this.options.cooldownMs));
+    }
+    if (state === 'half-open' && this.trialInFlight) {
+      // Should the trial fail, the circuit opens for a cool-down from then on
+      throw new CircuitOpenError(this.name, new Date(Date.now() + this.options.cooldownMs), true);
+    }
+    const trial = state === 'half-open';
+    this.trialInFlight ||= trial;
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (err) {
+      if (this.options.isFailure?.(err) ?? true) {
+        this.onFailure(err);
+      }
+      throw err;
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * State, counters and timing for health checks
+   * @returns {CircuitSnapshot}
+   */
+  snapshot(): CircuitSnapshot {
+    const state = this.state;
+    const { failureThreshold, cooldownMs } = this.options;
+    return {
+      name: this.name,
+      state,
+      consecutiveFailures: this.failures,
+      failureThreshold,
+      cooldownMs,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retryAt: state === 'open' ? new Date(this.openedAt! + cooldownMs).toISOString() : null,
+      lastError: this.lastError
+    };
+  }
+}
@@ -2,6 +2,25 @@
  * Shared constants for both MCP servers (STDIO and Express)
  */
 
+import { listLinkTypes, listLinkTypeNames, describeLinkType } from './link-types.js';
+import { MAX_NEIGHBOR_DEPTH, DEFAULT_PATH_DEPTH, MAX_PATH_DEPTH, MAX_PATHS } from './graph.js';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from './search-filters.js';
+import { DEFAULT_REINDEX_BATCH_SIZE, MAX_REINDEX_BATCH_SIZE } from './reindex.js';
+import { DEFAULT_SYNC_STATUS_LIMIT } from './sync.js';
+import { AUDIT_TRANSPORTS, AUDIT_STATUSES, DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT } from './audit.js';
+import {
+  noteCreatedOutputSchema, noteOutputSchema, searchOutputSchema, linkOutputSchema, noteUpdatedOutputSchema,
+  noteHistoryOutputSchema, noteChangedOutputSchema, subgraphOutputSchema, pathsOutputSchema,
+  reindexOutputSchema, syncStatusOutputSchema, vaultsOutputSchema, vaultOutputSchema, auditOutputSchema,
+  methodologyOutputSchema
+} from './output-schemas.js';
+
+/** `vault` argument accepted by every tool that reads or writes notes */
+const vaultProperty = {
+  type: 'string',
+  description: 'Vault to use instead of the connection\'s vault (see zk_list_vaults)'
+};
+
 /**
  * Specification of available MCP tools implementing Zettelkasten methodology.
  */
@@ -9,26 +28,92 @@ export const toolSpec = [
   { 
     name: 'zk_search_notes', 
     description: 'STEP 1: Search existing notes semantically before any action. Find context and related knowledge using Mem0 vector search.',
-    params: ['query:string'],
+    params: ['query:string', 'mode?:semantic|fulltext|hybrid', 'tags?:string[]', 'tag_mode?:any|all', 'created_after?:string', 'created_before?:string', 'linked_to?:string', 'link_type?:string', 'limit?:number', 'offset?:number', 'min_score?:number', 'vault?:string'],
     methodology: 'Always start here. Extract keywords from user request and search for existing knowledge before proceeding.'
   },
   { 
     name: 'zk_get_note', 
-    description: 'STEP 2: Retrieve specific note by ID when you have exact reference. Mem0 primary with SQLite fallback.',
-    params: ['id:string'],
+    description: 'STEP 2: Retrieve specific note by ID when you have exact reference. Returns the stored note; source=both adds its Mem0 memories and related notes.',
+    params: ['id:string', 'source?:local|semantic|both', 'vault?:string'],
     methodology: 'Use when you have a specific note ID from search results or links. Part of analysis phase.'
   },
   { 
     name: 'zk_create_note', 
     description: 'STEP 3: Create atomic note with clear title, concise content, and relevant tags. Each idea = one note.',
-    params: ['title:string', 'content:string', 'tags?:string[]'],
+    params: ['title:string', 'content:string', 'tags?:string[]', 'vault?:string'],
     methodology: 'Only after searching. One atomic idea per note. Title must be descriptive. Content concise but complete.'
   },
   { 
     name: 'zk_create_link', 
     description: 'STEP 4: Create bidirectional relationship between notes. Types: extends/refines/contradicts/relates/supports.',
-    params: ['from:string','to:string','type:string'],
+    params: ['from:string','to:string','type:string','note?:string','weight?:number', 'vault?:string'],
     methodology: 'Always link new notes to existing ones. Use meaningful relationship types that explain the connection.'
+  },
+  { 
+    name: 'zk_update_note', 
+    description: 'Refine an existing note instead of creating a near-duplicate. Previous versions are kept as revisions.',
+    params: ['id:string', 'title?:string', 'content?:string', 'tags?:string[]', 'vault?:string'],
+    methodology: 'Prefer updating a note found in search over creating a new one with the same idea.'
+  },
+  { 
+    name: 'zk_get_note_history', 
+    description: 'List the revisions of a note and diff two of them.',
+    params: ['id:string', 'from_revision?:number', 'to_revision?:number', 'vault?:string'],
+    methodology: 'Use to understand how an idea evolved before refining it further.'
+  },
+  { 
+    name: 'zk_delete_note', 
+    description: 'Archive (default) or permanently delete a note, cleaning up links and Mem0 memory.',
+    params: ['id:string', 'mode?:archive|hard', 'vault?:string'],
+    methodology: 'Archive obsolete or wrong notes; hard delete only junk that should never resurface.'
+  },
+  { 
+    name: 'zk_restore_note', 
+    description: 'Restore an archived note.',
+    params: ['id:string', 'vault?:string'],
+    methodology: 'Use when an archived note turns out to still be relevant.'
+  },
+  { 
+    name: 'zk_get_neighbors', 
+    description: 'Walk the link graph around a note, optionally filtered by link type and direction.',
+    params: ['id:string', 'depth?:number', 'types?:string[]', 'direction?:outgoing|incoming|both', 'vault?:string'],
+    methodology: 'Use during analysis to pull in the context connected to a note found by search.'
+  },
+  { 
+    name: 'zk_find_path', 
+    description: 'Shortest (or top-k) link paths between two notes, with the link type of every hop.',
+    params: ['from:string', 'to:string', 'max_depth?:number', 'limit?:number', 'types?:string[]', 'vault?:string'],
+    methodology: 'Use to explain why two notes are related when reviewing an answer.'
+  },
+  { 
+    name: 'zk_reindex', 
+    description: 'Admin: rebuild the semantic index from SQLite, reporting missing notes and orphaned memories.',
+    params: ['scope?:missing|all', 'ids?:string[]', 'tags?:string[]', 'tag_mode?:any|all', 'created_after?:string', 'created_before?:string', 'batch_size?:number', 'purge_orphans?:boolean', 'dry_run?:boolean', 'vault?:string'],
+    methodology: 'Maintenance only, not part of the note workflow. Run with dry_run first.'
+  },
+  { 
+    name: 'zk_sync_status', 
+    description: 'Admin: semantic index operations pending retry and dead letters.',
+    params: ['limit?:number', 'vault?:string'],
+    methodology: 'Maintenance only. Check when notes seem missing from semantic search.'
+  },
+  { 
+    name: 'zk_list_vaults', 
+    description: 'List vaults with their note counts.',
+    params: [],
+    methodology: 'Each vault is a separate Zettelkasten; links never cross vaults.'
+  },
+  { 
+    name: 'zk_create_vault', 
+    description: 'Create an empty vault.',
+    params: ['id:string', 'name?:string'],
+    methodology: 'Select it with the vault param or the X-ZK-Vault header.'
+  },
+  { 
+    name: 'zk_audit_query', 
+    description: 'Admin: page through the audit log of tool calls, newest first.',
+    params: ['tool?:string', 'transport?:stdio|http|sse|rest', 'status?:ok|error|denied', 'api_key_id?:string', 'vault_id?:string', 'client?:string', 'since?:string', 'until?:string', 'cursor?:string', 'limit?:number'],
+    methodology: 'Maintenance only. Find which client or key created or linked a note.'
   }
 ];
 
@@ -75,14 +160,7 @@ export const methodologyResponse = {
     }
   },
   
-  linkTypes: [
-    "extends", "extended_by", 
-    "refines", "refined_by",
-    "contradicts", "contradicted_by", 
-    "supports", "supported_by",
-    "relates", "related_by",
-    "exemplifies", "exemplified_by"
-  ],
+  get linkTypes() { return listLinkTypeNames(); },
   
   bestPractices: [
     "Search before every action using semantic keywords",
@@ -108,7 +186,8 @@ export const methodologyResponse = {
 };
 
 /**
- * MCP Tool Schema for both STDIO and SSE transports
+ * MCP Tool Schema for both STDIO and SSE transports. Every tool returns its
+ * result as text and as `structuredContent` matching its `outputSchema`.
  */
 export const mcpToolsSchema = [
   {
@@ -119,45 +198,260 @@ export const mcpToolsSchema = [
       properties: {
         title: { type: 'string', description: 'Note title' },
         content: { type: 'string', description: 'Note content' },
-        tags: { type: 'array', items: { type: 'string' }, description: 'Optional tags' }
+        tags: { type: 'array', items: { type: 'string' }, description: 'Optional tags' },
+        vault: vaultProperty
       },
       required: ['title', 'content']
-    }
+    },
+    outputSchema: noteCreatedOutputSchema
   },
   {
     name: 'zk_get_note',
-    description: 'Retrieve a note by ID from semantic memory',
+    description: 'Retrieve a note by ID: title, content, tags, links and timestamps from local storage, optionally enriched from semantic memory',
     inputSchema: {
       type: 'object',
       properties: {
-        id: { type: 'string', description: 'Note ID' }
+        id: { type: 'string', description: 'Note ID' },
+        source: {
+          type: 'string',
+          enum: ['local', 'semantic', 'both'],
+          description: 'local (default): the stored note; semantic: the note as remembered by Mem0, falling back to the stored note; both: the stored note plus its Mem0 memories and related notes'
+        },
+        vault: vaultProperty
       },
       required: ['id']
-    }
+    },
+    outputSchema: noteOutputSchema
   },
   {
     name: 'zk_search_notes',
-    description: 'Search notes semantically using Mem0',
+    description: 'Search notes semantically using Mem0, falling back to local full-text search',
     inputSchema: {
       type: 'object',
       properties: {
-        query: { type: 'string', description: 'Search query' }
+        query: { type: 'string', description: 'Search query. In fulltext mode supports "exact phrases", prefix* and AND/OR/NOT' },
+        mode: {
+          type: 'string',
+          enum: ['semantic', 'fulltext', 'hybrid'],
+          description: 'semantic: Mem0 vector search with full-text fallback (default); fulltext: local SQLite FTS5 ranked by bm25; hybrid: both, merged by reciprocal rank fusion'
+        },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Only return notes with these tags' },
+        tag_mode: { type: 'string', enum: ['any', 'all'], description: 'Match notes having any (default) or all of the tags' },
+        created_after: { type: 'string', description: 'ISO 8601 date; only notes created at or after it' },
+        created_before: { type: 'string', description: 'ISO 8601 date; only notes created before it' },
+        linked_to: { type: 'string', description: 'Only notes linked to this note ID, in either direction' },
+        link_type: {
+          type: 'string',
+          get enum() { return listLinkTypeNames(); },
+          description: 'Only notes with a link of this type (to linked_to, if given). An inverse type such as extended_by matches incoming links'
+        },
+        limit: { type: 'number', minimum: 1, maximum: MAX_SEARCH_LIMIT, description: `Page size (default ${DEFAULT_SEARCH_LIMIT})` },
+        offset: { type: 'number', minimum: 0, description: 'Number of results to skip (default 0)' },
+        min_score: { type: 'number', description: 'Drop results scoring below this; the scale depends on mode (Mem0 similarity, bm25, or RRF)' },
+        vault: vaultProperty
       },
       required: ['query']
-    }
+    },
+    outputSchema: searchOutputSchema
   },
   {
     name: 'zk_create_link',
-    description: 'Create bidirectional link between notes',
+    description: 'Create bidirectional link between notes. Inverse types (e.g. extended_by) are stored as the forward type from "to" to "from"',
     inputSchema: {
       type: 'object',
       properties: {
         from: { type: 'string', description: 'Source note ID' },
         to: { type: 'string', description: 'Target note ID' },
-        type: { type: 'string', description: 'Link type' }
+        type: {
+          type: 'string',
+          // Getter so types loaded from the link type config after import are listed too
+          get enum() { return listLinkTypeNames(); },
+          get description() { return `Link type. ${listLinkTypes().map(describeLinkType).join('; ')}`; }
+        },
+        note: { type: 'string', description: 'Optional explanation of why the notes are linked' },
+        weight: { type: 'number', description: 'Optional strength of the relationship' },
+        vault: vaultProperty
       },
       required: ['from', 'to', 'type']
-    }
+    },
+    outputSchema: linkOutputSchema
+  },
+  {
+    name: 'zk_update_note',
+    description: 'Update the title, content or tags of an existing note, keeping its previous version in the revision history',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Note ID' },
+        title: { type: 'string', description: 'New title' },
+        content: { type: 'string', description: 'New content' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'New tags (replaces existing tags)' },
+        vault: vaultProperty
+      },
+      required: ['id']
+    },
+    outputSchema: noteUpdatedOutputSchema
+  },
+  {
+    name: 'zk_get_note_history',
+    description: 'List the revisions of a note and show a diff between two of them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Note ID' },
+        from_revision: { type: 'number', description: 'Older revision to diff (defaults to the one before to_revision)' },
+        to_revision: { type: 'number', description: 'Newer revision to diff (defaults to the current revision)' },
+        vault: vaultProperty
+      },
+      required: ['id']
+    },
+    outputSchema: noteHistoryOutputSchema
+  },
+  {
+    name: 'zk_delete_note',
+    description: 'Delete a note. "archive" hides it from search and can be undone with zk_restore_note; "hard" removes it, its links and its Mem0 memory permanently',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Note ID' },
+        mode: { type: 'string', enum: ['archive', 'hard'], description: 'Delete mode (default: archive)' },
+        vault: vaultProperty
+      },
+      required: ['id']
+    },
+    outputSchema: noteChangedOutputSchema
+  },
+  {
+    name: 'zk_restore_note',
+    description: 'Restore an archived note so it shows up in search again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Note ID' },
+        vault: vaultProperty
+      },
+      required: ['id']
+    },
+    outputSchema: noteChangedOutputSchema
+  },
+  {
+    name: 'zk_get_neighbors',
+    description: 'Walk the link graph around a note: returns linked notes up to N hops away with the link type of every edge',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Root note ID' },
+        depth: { type: 'number', minimum: 1, maximum: MAX_NEIGHBOR_DEPTH, description: `Number of hops (default 1, max ${MAX_NEIGHBOR_DEPTH})` },
+        types: {
+          type: 'array',
+          items: { type: 'string', get enum() { return listLinkTypeNames(); } },
+          description: 'Only follow these link types (default: all)'
+        },
+        direction: { type: 'string', enum: ['outgoing', 'incoming', 'both'], description: 'Which links to follow (default: both)' },
+        vault: vaultProperty
+      },
+      required: ['id']
+    },
+    outputSchema: subgraphOutputSchema
+  },
+  {
+    name: 'zk_find_path',
+    description: 'Explain how two notes are connected: shortest link path(s) between them, following links in either direction',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'Start note ID' },
+        to: { type: 'string', description: 'End note ID' },
+        max_depth: { type: 'number', minimum: 1, maximum: MAX_PATH_DEPTH, description: `Longest path to consider in hops (default ${DEFAULT_PATH_DEPTH}, max ${MAX_PATH_DEPTH})` },
+        limit: { type: 'number', minimum: 1, maximum: MAX_PATHS, description: `Number of paths to return, shortest first (default 1, max ${MAX_PATHS})` },
+        types: {
+          type: 'array',
+          items: { type: 'string', get enum() { return listLinkTypeNames(); } },
+          description: 'Only follow these link types (default: all)'
+        },
+        vault: vaultProperty
+      },
+      required: ['from', 'to']
+    },
+    outputSchema: pathsOutputSchema
+  },
+  {
+    name: 'zk_reindex',
+    description: 'Admin: rebuild the semantic index from the notes table. Reports notes missing from the index and memories with no matching note; pushes missing (or all) selected notes in batches and can purge the orphans',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        scope: { type: 'string', enum: ['missing', 'all'], description: 'Push only notes missing from the index, or re-push every selected note (default: missing)' },
+        ids: { type: 'array', items: { type: 'string' }, description: 'Only these note IDs' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Only notes with these tags (archived notes are then skipped)' },
+        tag_mode: { type: 'string', enum: ['any', 'all'], description: 'Whether a note needs any or all of the tags (default: any)' },
+        created_after: { type: 'string', description: 'Only notes created at or after this ISO 8601 date' },
+        created_before: { type: 'string', description: 'Only notes created before this ISO 8601 date' },
+        batch_size: { type: 'number', minimum: 1, maximum: MAX_REINDEX_BATCH_SIZE, description: `Notes pushed concurrently (default ${DEFAULT_REINDEX_BATCH_SIZE})` },
+        purge_orphans: { type: 'boolean', description: 'Delete memories that belong to no existing note (default: false)' },
+        dry_run: { type: 'boolean', description: 'Only report what would be done (default: false)' },
+        vault: vaultProperty
+      },
+      required: []
+    },
+    outputSchema: reindexOutputSchema
+  },
+  {
+    name: 'zk_sync_status',
+    description: 'Admin: show semantic index operations waiting for retry (attempts, last error, next attempt) and those moved to dead letters after too many failures',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', minimum: 1, description: `Entries shown per list (default ${DEFAULT_SYNC_STATUS_LIMIT})` },
+        vault: vaultProperty
+      },
+      required: []
+    },
+    outputSchema: syncStatusOutputSchema
+  },
+  {
+    name: 'zk_list_vaults',
+    description: 'List the vaults (separate note collections) with their number of notes, marking the current one',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    },
+    outputSchema: vaultsOutputSchema
+  },
+  {
+    name: 'zk_create_vault',
+    description: 'Create an empty vault; select it with the vault argument of the note tools or the X-ZK-Vault header',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Vault ID: 1-64 letters, digits, "_" or "-"' },
+        name: { type: 'string', description: 'Display name (default: the ID)' }
+      },
+      required: ['id']
+    },
+    outputSchema: vaultOutputSchema
+  },
+  {
+    name: 'zk_audit_query',
+    description: 'Admin: page through the audit log of tool calls (who called which tool with which arguments, status and duration), newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tool: { type: 'string', description: 'Only calls of this tool' },
+        transport: { type: 'string', enum: AUDIT_TRANSPORTS, description: 'Only calls over this transport' },
+        status: { type: 'string', enum: AUDIT_STATUSES, description: 'Only calls that succeeded, failed or were refused for lack of scope' },
+        api_key_id: { type: 'string', description: 'Only calls made with this API key' },
+        vault_id: { type: 'string', description: 'Only calls in this vault' },
+        client: { type: 'string', description: 'Only calls from this client name' },
+        since: { type: 'string', description: 'Only calls at or after this ISO 8601 date' },
+        until: { type: 'string', description: 'Only calls before this ISO 8601 date' },
+        cursor: { type: 'string', description: 'next_cursor of the previous page' },
+        limit: { type: 'number', minimum: 1, maximum: MAX_AUDIT_LIMIT, description: `Page size (default ${DEFAULT_AUDIT_LIMIT})` }
+      },
+      required: []
+    },
+    outputSchema: auditOutputSchema
   },
   {
     name: 'zk_get_methodology',
@@ -166,6 +460,7 @@ export const mcpToolsSchema = [
       type: 'object',
       properties: {},
       required: []
-    }
+    },
+    outputSchema: methodologyOutputSchema
   }
 ]; 
\ No newline at end of file
@@ -0,0 +1,127 @@
+/**
+ * Schema migrations (migrate) and transactions on the connection shared by
+ * every request (withTransaction, IsolatedDatabase)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migrate, openDatabase, withTransaction } from './database.js';
+import { SqliteNoteRepository, openSqliteRepository } from './repository.js';
+
+async function openWithNotes(...ids: string[]): Promise<SqliteNoteRepository> {
+  const repo = await openSqliteRepository(':memory:');
+  for (const id of ids) {
+    await repo.createNote({ id, title: `Note ${id}`, content: 'first' });
+  }
+  return repo;
+}
+
+test('concurrent updates of a note both commit, as consecutive revisions', async () => {
+  const repo = await openWithNotes('a');
+  try {
+    const results = await Promise.all([
+      repo.updateNote('a', { content: 'second' }),
+      repo.updateNote('a', { content: 'third' })
+    ]);
+    assert.deepEqual(results.map(result => result.revision), [1, 2]);
+    assert.equal((await repo.getNote('a'))!.content, 'third');
+    const history = await repo.getNoteHistory('a');
+    assert.deepEqual(history.map(revision => revision.content), ['first', 'second', 'third']);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('concurrent links, updates and deletes do not collide', async () => {
+  const repo = await openWithNotes('a', 'b', 'c', 'd');
+  try {
+    await Promise.all([
+      repo.createLink({ from: 'a', to: 'b', type: 'relates' }),
+      repo.createLink({ from: 'a', to: 'c', type: 'relates' }),
+      repo.updateNote('b', { title: 'Renamed' }),
+      repo.deleteNote('d')
+    ]);
+    const { outgoing } = await repo.getNoteLinks('a');
+    assert.deepEqual(outgoing.map(link => link.other_id).sort(), ['b', 'c']);
+    assert.equal(await repo.getNote('d'), undefined);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('a statement sent during another call\'s transaction is not rolled back with it', async () => {
+  const repo = await openWithNotes();
+  const { db } = repo;
+  try {
+    await db.exec('CREATE TABLE events (name TEXT)');
+    let inserted!: () => void;
+    const insertedInside = new Promise<void>(resolve => { inserted = resolve; });
+    const failing = withTransaction(db, async () => {
+      await db.run(`INSERT INTO events VALUES ('inside')`);
+      inserted();
+      // Give the outside statement a chance to run while the transaction is open
+      await new Promise(resolve => setTimeout(resolve, 20));
+      throw new Error('fail');
+    });
+    await insertedInside;
+    const outside = db.run(`INSERT INTO events VALUES ('outside')`);
+    await assert.rejects(failing, /fail/);
+    await outside;
+    const rows = await db.all<Array<{ name: string }>>('SELECT name FROM events');
+    assert.deepEqual(rows.map(row => row.name), ['outside']);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('a database from before versioning is migrated to the latest schema, legacy links included', async () => {
+  const db = await openDatabase(':memory:');
+  try {
+    await db.exec(`
+      CREATE TABLE notes (id TEXT PRIMARY KEY, title TEXT, content TEXT, tags TEXT, links TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+      CREATE TABLE retry_queue (id TEXT PRIMARY KEY, payload TEXT, created_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+    `);
+    // Legacy links were written on both notes, the reverse half with a `_by` type
+    const legacy = {
+      a: [{ from: 'a', to: 'b', type: 'extends' }, { from: 'a', to: 'gone', type: 'supports' }],
+      b: [{ from: 'b', to: 'a', type: 'extends_by' }, { from: 'b', to: 'c', type: 'relates' }],
+      c: [{ from: 'c', to: 'b', type: 'relates' }]
+    };
+    for (const [id, links] of Object.entries(legacy)) {
+      await db.run('INSERT INTO notes (id, title, content, links) VALUES (?, ?, ?, ?)', id, `Note ${id}`, 'text', JSON.stringify(links));
+    }
+    await db.run(`INSERT INTO notes (id, title, content, links) VALUES ('d', 'Note d', 'text', 'not json')`);
+    await db.run(`INSERT INTO retry_queue (id, payload) VALUES ('a', '{"id":"a","title":"Note a"}')`);
+
+    assert.equal(await migrate(db), 11);
+    assert.equal((await db.get<{ user_version: number }>('PRAGMA user_version'))!.user_version, 11);
+
+    const links = await db.all<Array<{ from_id: string; to_id: string; type: string; vault_id: string }>>(
+      'SELECT from_id, to_id, type, vault_id FROM links ORDER BY from_id, to_id'
+    );
+    assert.deepEqual(links, [
+      { from_id: 'a', to_id: 'b', type: 'extends', vault_id: 'default' },
+      { from_id: 'b', to_id: 'c', type: 'relates', vault_id: 'default' },
+      { from_id: 'c', to_id: 'b', type: 'relates', vault_id: 'default' }
+    ]);
+    assert.deepEqual(await db.all('SELECT id FROM notes WHERE links IS NOT NULL'), []);
+
+    const queued = await db.all<Array<{ note_id: string; op: string; attempts: number; vault_id: string }>>(
+      'SELECT note_id, op, attempts, vault_id FROM sync_queue'
+    );
+    assert.deepEqual(queued, [{ note_id: 'a', op: 'create', attempts: 0, vault_id: 'default' }]);
+    assert.equal(await db.get(`SELECT name FROM sqlite_master WHERE name = 'retry_queue'`), undefined);
+
+    const fts = await db.all<Array<{ note_id: string }>>(`SELECT note_id FROM notes_fts WHERE notes_fts MATCH 'text' ORDER BY note_id`);
+    assert.deepEqual(fts.map(row => row.note_id), ['a', 'b', 'c', 'd']);
+    for (const table of ['note_memories', 'local_vectors', 'sync_dead_letters', 'vaults', 'api_keys', 'audit_log']) {
+      assert.ok(await db.get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, table), table);
+    }
+
+    assert.equal(await migrate(db), 11);
+    assert.equal((await db.all('SELECT * FROM links')).length, 3);
+  } finally {
+    await db.close();
+  }
+});
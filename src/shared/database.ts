@@ -0,0 +1,357 @@
+/**
+ * SQLite schema, migrations and transaction helper shared by both MCP servers
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import sqlite3 from 'sqlite3';
+import { Database, ISqlite } from 'sqlite';
+import { NotesDatabase } from './types.js';
+
+/**
+ * Ordered schema migrations. The index + 1 is the `user_version` a database
+ * reaches after the step has run, so steps must only ever be appended.
+ */
+const migrations: Array<(db: NotesDatabase) => Promise<void>> = [
+  // 1: baseline tables (already present on databases created before versioning)
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS notes (
+        id TEXT PRIMARY KEY,
+        title TEXT,
+        content TEXT,
+        tags TEXT,
+        links TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS retry_queue (
+        id TEXT PRIMARY KEY,
+        payload TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+  },
+  // 2: note revision history
+  async (db) => {
+    await db.exec('ALTER TABLE notes ADD COLUMN updated_at DATETIME;');
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS note_revisions (
+        note_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        title TEXT,
+        content TEXT,
+        tags TEXT,
+        created_at DATETIME,
+        PRIMARY KEY (note_id, revision)
+      );
+    `);
+  },
+  // 3: soft delete
+  async (db) => {
+    await db.exec('ALTER TABLE notes ADD COLUMN archived_at DATETIME;');
+  },
+  // 4: normalized links, replacing the JSON `notes.links` column
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS links (
+        from_id TEXT NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+        to_id TEXT NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        note TEXT,
+        weight REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (from_id, to_id, type)
+      );
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_links_to ON links (to_id);');
+    await importLegacyLinks(db);
+  },
+  // 5: full-text index. Keyed on note_id rather than rowid because VACUUM may
+  // renumber the implicit rowids of `notes`.
+  async (db) => {
+    await db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+        note_id UNINDEXED, title, content, tags,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `);
+    await db.exec(`
+      CREATE TRIGGER IF NOT EXISTS notes_fts_insert AFTER INSERT ON notes BEGIN
+        INSERT INTO notes_fts (note_id, title, content, tags) VALUES (new.id, new.title, new.content, new.tags);
+      END;
+      CREATE TRIGGER IF NOT EXISTS notes_fts_update AFTER UPDATE OF title, content, tags ON notes BEGIN
+        DELETE FROM notes_fts WHERE note_id = old.id;
+        INSERT INTO notes_fts (note_id, title, content, tags) VALUES (new.id, new.title, new.content, new.tags);
+      END;
+      CREATE TRIGGER IF NOT EXISTS notes_fts_delete AFTER DELETE ON notes BEGIN
+        DELETE FROM notes_fts WHERE note_id = old.id;
+      END;
+    `);
+    await db.exec(`
+      INSERT INTO notes_fts (note_id, title, content, tags) SELECT id, title, content, tags FROM notes;
+    `);
+  },
+  // 6: Mem0 memory IDs per note. No foreign key: rows must outlive a hard-deleted
+  // note until its memories have been removed from Mem0.
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS note_memories (
+        note_id TEXT NOT NULL,
+        memory_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (note_id, memory_id)
+      );
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_note_memories_memory ON note_memories (memory_id);');
+  },
+  // 7: embeddings of the local semantic index (local mode). `model` names the
+  // embedder, so vectors from another model or dimension are never compared.
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS local_vectors (
+        id TEXT PRIMARY KEY,
+        note_id TEXT NOT NULL,
+        memory TEXT NOT NULL,
+        model TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_local_vectors_note ON local_vectors (note_id);');
+  },
+  // 8: retry state per queued index operation and a dead-letter table for
+  // operations that kept failing
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_queue (
+        note_id TEXT PRIMARY KEY,
+        op TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await db.exec(`
+      INSERT OR IGNORE INTO sync_queue (note_id, op, payload, created_at)
+      SELECT id, COALESCE(json_extract(payload, '$.op'), 'create'), payload, created_at FROM retry_queue;
+    `);
+    await db.exec('DROP TABLE retry_queue;');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_sync_queue_due ON sync_queue (next_attempt_at);');
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_dead_letters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        note_id TEXT NOT NULL,
+        op TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        created_at DATETIME,
+        failed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+  },
+  // 9: vaults. Existing notes, links, queued operations and local vectors
+  // move to the `default` vault. No REFERENCES clause: SQLite rejects a
+  // foreign key column added with a non-null default.
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS vaults (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await db.exec(`INSERT OR IGNORE INTO vaults (id, name) VALUES ('default', 'Default vault');`);
+    for (const table of ['notes', 'links', 'sync_queue', 'sync_dead_letters', 'local_vectors']) {
+      await db.exec(`ALTER TABLE ${table} ADD COLUMN vault_id TEXT NOT NULL DEFAULT 'default';`);
+    }
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_notes_vault ON notes (vault_id, created_at);');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_local_vectors_vault ON local_vectors (vault_id, model);');
+  },
+  // 10: API keys of the HTTP server, stored as SHA-256 hashes
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        rate_limit INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME,
+        revoked_at DATETIME
+      );
+    `);
+  },
+  // 11: audit log of tool calls
+  async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        transport TEXT NOT NULL,
+        client_name TEXT,
+        client_version TEXT,
+        remote_address TEXT,
+        api_key_id TEXT,
+        vault_id TEXT,
+        tool TEXT NOT NULL,
+        arguments TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        duration_ms INTEGER NOT NULL
+      );
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log (created_at);');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_audit_log_tool ON audit_log (tool, id);');
+  }
+];
+
+/**
+ * Copy links from the legacy JSON `notes.links` column into the `links` table.
+ * Each legacy link was written twice: `{from, to, type}` on the origin note and
+ * `{from: to, to: from, type: type + '_by'}` on the target, so the reverse half
+ * of every pair is skipped.
+ * @param {NotesDatabase} db - Open SQLite handle.
+ * @returns {Promise<void>}
+ */
+async function importLegacyLinks(db: NotesDatabase): Promise<void> {
+  const rows = await db.all<Array<{ id: string; links: string | null }>>(
+    `SELECT id, links FROM notes WHERE links IS NOT NULL AND links != '[]'`
+  );
+  const entries: Array<{ from: string; to: string; type: string }> = [];
+  for (const row of rows) {
+    try {
+      entries.push(...JSON.parse(row.links!).filter((e: any) => e && e.from && e.to && e.type));
+    } catch {
+      // Unparseable legacy value: nothing to import
+    }
+  }
+  const keys = new Set(entries.map(e => `${e.from}|${e.to}|${e.type}`));
+  for (const { from, to, type } of entries) {
+    const isReverse = !keys.has(`${to}|${from}|${type}_by`) &&
+      type.endsWith('_by') && keys.has(`${to}|${from}|${type.slice(0, -3)}`);
+    if (isReverse) continue;
+    await db.run(
+      `INSERT OR IGNORE INTO links (from_id,to_id,type)
+       SELECT ?,?,? WHERE EXISTS (SELECT 1 FROM notes WHERE id=?) AND EXISTS (SELECT 1 FROM notes WHERE id=?)`,
+      from, to, type, from, to
+    );
+  }
+  await db.exec('UPDATE notes SET links = NULL;');
+}
+
+/**
+ * Bring the database schema up to date.
+ * @param {NotesDatabase} db - Open SQLite handle.
+ * @returns {Promise<number>} Schema version after migrating
+ */
+export async function migrate(db: NotesDatabase): Promise<number> {
+  const row = await db.get<{ user_version: number }>('PRAGMA user_version;');
+  const current = row?.user_version ?? 0;
+  for (let version = current; version < migrations.length; version++) {
+    await withTransaction(db, async () => {
+      await migrations[version](db);
+      await db.exec(`PRAGMA user_version = ${version + 1};`);
+    });
+  }
+  return migrations.length;
+}
+
+/** Tail of the chain of transactions waiting for or holding each connection */
+const transactionQueues = new WeakMap<NotesDatabase, Promise<void>>();
+
+/** The connection whose transaction the current async call chain runs in */
+const transactionScope = new AsyncLocalStorage<NotesDatabase>();
+
+/**
+ * Connection whose statements from outside a transaction wait until it has no
+ * transaction open or queued. Every request shares one connection, so a
+ * statement sent while another request's transaction is open would otherwise
+ * run inside it and be committed or rolled back with it.
+ */
+export class IsolatedDatabase extends Database<sqlite3.Database, sqlite3.Statement> {
+  /** Resolves once no transaction of another call chain is open or queued */
+  private async outsideTransactions(): Promise<void> {
+    if (transactionScope.getStore() === this) {
+      return;
+    }
+    let pending: Promise<void> | undefined;
+    while ((pending = transactionQueues.get(this))) {
+      await pending;
+    }
+  }
+
+  async exec(sql: ISqlite.SqlType): Promise<void> {
+    await this.outsideTransactions();
+    return super.exec(sql);
+  }
+
+  async run(sql: ISqlite.SqlType, ...params: any[]): Promise<ISqlite.RunResult<sqlite3.Statement>> {
+    await this.outsideTransactions();
+    return super.run(sql, ...params);
+  }
+
+  async get<T = any>(sql: ISqlite.SqlType, ...params: any[]): Promise<T | undefined> {
+    await this.outsideTransactions();
+    return super.get<T>(sql, ...params);
+  }
+
+  async all<T = any[]>(sql: ISqlite.SqlType, ...params: any[]): Promise<T> {
+    await this.outsideTransactions();
+    return super.all<T>(sql, ...params);
+  }
+}
+
+/**
+ * Open (creating if needed) a SQLite file as an IsolatedDatabase
+ * @param {string} filename - Path of the SQLite file, or `:memory:`
+ * @returns {Promise<NotesDatabase>}
+ */
+export async function openDatabase(filename: string): Promise<NotesDatabase> {
+  const db = new IsolatedDatabase({ filename, driver: sqlite3.Database });
+  await db.open();
+  return db;
+}
+
+/**
+ * Run `fn` inside a transaction, rolling back if it throws. Transactions on
+ * the same connection run one at a time, in call order; a call made inside a
+ * transaction joins it.
+ * @template T
+ * @param {NotesDatabase} db - Open SQLite handle.
+ * @param {() => Promise<T>} fn - Work to run atomically.
+ * @returns {Promise<T>} Result of `fn`
+ */
+export async function withTransaction<T>(db: NotesDatabase, fn: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore() === db) {
+    return fn();
+  }
+  const previous = transactionQueues.get(db) ?? Promise.resolve();
+  let release!: () => void;
+  const done = new Promise<void>(resolve => { release = resolve; });
+  const tail = previous.then(() => done);
+  transactionQueues.set(db, tail);
+  await previous;
+  try {
+    return await transactionScope.run(db, async () => {
+      await db.exec('BEGIN IMMEDIATE;');
+      try {
+        const result = await fn();
+        await db.exec('COMMIT;');
+        return result;
+      } catch (err) {
+        await db.exec('ROLLBACK;');
+        throw err;
+      }
+    });
+  } finally {
+    if (transactionQueues.get(db) === tail) {
+      transactionQueues.delete(db);
+    }
+    release();
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Offline text embeddings for the local semantic index
+ *
+ * Nothing here touches the network: vectors are built with the hashing trick
+ * from words, word pairs and character trigrams, so related spellings
+ * ("auth", "authentication", "autenticación") land close together.
+ */
+
+export interface Embedder {
+  /** Stored with every vector; vectors from another model are ignored */
+  readonly model: string;
+  readonly dimension: number;
+  /** Unit-length embedding of `text` */
+  embed(text: string): Promise<Float32Array>;
+}
+
+export const DEFAULT_EMBEDDING_DIMENSION = 512;
+
+/** Relative weight of each feature family */
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * 32-bit FNV-1a hash
+ * @param {string} text - Feature string
+ * @returns {number} Unsigned hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lower-cased words of a text with diacritics removed
+ * @param {string} text - Raw text
+ * @returns {string[]}
+ */
+export function embeddingTokens(text: string): string[] {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Hashed n-gram embedder: sublinear term counts of words, adjacent word pairs
+ * and character trigrams, hashed into `dimension` signed buckets and
+ * L2-normalized, so cosine similarity is a dot product.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly model: string;
+
+  constructor(readonly dimension: number = DEFAULT_EMBEDDING_DIMENSION) {
+    this.model = `hashed-ngram-${dimension}`;
+  }
+
+  async embed(text: string): Promise<Float32Array> {
+    const counts = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const entry = counts.get(feature);
+      if (entry) entry.count++;
+      else counts.set(feature, { count: 1, weight });
+    };
+
+    const words = embeddingTokens(text);
+    words.forEach((word, i) => {
+      add(`w:${word}`, WORD_WEIGHT);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Float32Array(this.dimension);
+    for (const [feature, { count, weight }] of counts) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimension] += sign * weight * (1 + Math.log(count));
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm > 0) {
+      for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+    }
+    return vector;
+  }
+}
+
+/**
+ * Dot product of two vectors of the same length (cosine similarity for unit vectors)
+ * @param {Float32Array} a - First vector
+ * @param {Float32Array} b - Second vector
+ * @returns {number}
+ */
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
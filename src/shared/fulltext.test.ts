@@ -0,0 +1,79 @@
+/**
+ * Full-text search over the FTS5 index (searchFullText, buildFtsQuery)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteNoteRepository, openSqliteRepository } from './repository.js';
+import { buildFtsQuery, isAdvancedFtsQuery } from './fulltext.js';
+import { parseSearchFilters } from './search-filters.js';
+
+async function openNotes(): Promise<SqliteNoteRepository> {
+  const repo = await openSqliteRepository(':memory:');
+  await repo.createNote({ id: 'cache', title: 'Caching', content: 'Memoization trades memory for speed', tags: ['perf'] });
+  await repo.createNote({ id: 'auth', title: 'Authentication', content: 'Tokens expire; refresh them before they do', tags: ['security'] });
+  await repo.createNote({ id: 'both', title: 'Session tokens', content: 'Cache session tokens in memory', tags: ['security', 'perf'] });
+  return repo;
+}
+
+const ids = (hits: Array<{ id: string }>) => hits.map(hit => hit.id);
+
+test('plain queries match any of their words', () => {
+  assert.equal(buildFtsQuery('cache the cache, tokens!'), '"cache" OR "the" OR "tokens"');
+  assert.equal(buildFtsQuery('  ...  '), '');
+  assert.equal(isAdvancedFtsQuery('cache tokens'), false);
+  assert.equal(isAdvancedFtsQuery('"session tokens"'), true);
+  assert.equal(isAdvancedFtsQuery('auth*'), true);
+  assert.equal(isAdvancedFtsQuery('cache NOT tokens'), true);
+});
+
+test('keyword search ranks notes matching more of the words first', async () => {
+  const repo = await openNotes();
+  try {
+    const hits = await repo.searchFullText('tokens memory');
+    assert.equal(hits[0].id, 'both');
+    assert.deepEqual(ids(hits).sort(), ['auth', 'both', 'cache']);
+    assert.ok(hits[0].score > hits[1].score);
+    assert.match(hits[0].snippet, /\*\*tokens\*\*/);
+    assert.deepEqual(hits[0].tags, ['security', 'perf']);
+    assert.deepEqual(await repo.searchFullText('nothing here'), []);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('FTS5 syntax is passed through', async () => {
+  const repo = await openNotes();
+  try {
+    assert.deepEqual(ids(await repo.searchFullText('"session tokens"')), ['both']);
+    assert.deepEqual(ids(await repo.searchFullText('Authent*')), ['auth']);
+    assert.deepEqual(ids(await repo.searchFullText('tokens NOT session')), ['auth']);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('a malformed FTS5 expression falls back to its words', async () => {
+  const repo = await openNotes();
+  try {
+    assert.deepEqual(ids(await repo.searchFullText('"memoization (speed')), ['cache']);
+    assert.deepEqual(await repo.searchFullText('"('), []);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('filters, paging and archiving narrow the hits', async () => {
+  const repo = await openNotes();
+  try {
+    const perf = await repo.searchFullText('tokens memory', parseSearchFilters({ tags: ['perf'], tag_mode: 'all' }));
+    assert.deepEqual(ids(perf), ['both', 'cache']);
+    const all = ids(await repo.searchFullText('tokens memory'));
+    assert.deepEqual(ids(await repo.searchFullText('tokens memory', parseSearchFilters({ limit: 1, offset: 1 }))), [all[1]]);
+
+    await repo.archiveNote('both');
+    assert.deepEqual(ids(await repo.searchFullText('tokens memory')).sort(), ['auth', 'cache']);
+  } finally {
+    await repo.close();
+  }
+});
@@ -0,0 +1,113 @@
+/**
+ * Local full-text search over the SQLite FTS5 index shared by both MCP servers
+ */
+
+import { NotesDatabase } from './types.js';
+import { parseTags } from './notes.js';
+import { SearchFilters, parseSearchFilters, noteFilterSql } from './search-filters.js';
+
+export interface FullTextHit {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  created_at: string;
+  /** bm25 relevance, higher is better */
+  score: number;
+  /** Matching excerpt of the content with hits wrapped in ** */
+  snippet: string;
+}
+
+/** bm25 column weights: note_id, title, content, tags */
+const BM25_WEIGHTS = '0.0, 10.0, 1.0, 2.0';
+
+/**
+ * Whether the query uses FTS5 syntax (phrases, prefixes, boolean operators, grouping)
+ * @param {string} query - Raw user query
+ * @returns {boolean}
+ */
+export function isAdvancedFtsQuery(query: string): boolean {
+  return /["*()]|\b(AND|OR|NOT|NEAR)\b/.test(query);
+}
+
+/**
+ * Turn a plain keyword query into an FTS5 expression matching any of its words.
+ * bm25 ranks notes that contain more of the words higher, which suits the long
+ * multi-keyword (and bilingual) queries agents send.
+ * @param {string} query - Raw user query
+ * @returns {string} FTS5 MATCH expression, empty if the query has no words
+ */
+export function buildFtsQuery(query: string): string {
+  const words = query.match(/[\p{L}\p{N}_]+/gu) || [];
+  return [...new Set(words)].map(word => `"${word}"`).join(' OR ');
+}
+
+async function runFullTextQuery(
+  db: NotesDatabase,
+  vault: string,
+  match: string,
+  filters: SearchFilters
+): Promise<FullTextHit[]> {
+  const { sql, params } = noteFilterSql(filters);
+  const minScore = filters.minScore !== undefined ? 'WHERE score >= ?' : '';
+  const rows = await db.all<Array<Omit<FullTextHit, 'tags'> & { tags: string | null }>>(
+    `SELECT * FROM (
+       SELECT n.id, n.title, n.content, n.tags, n.created_at,
+         -bm25(notes_fts, ${BM25_WEIGHTS}) AS score,
+         snippet(notes_fts, -1, '**', '**', '…', 16) AS snippet
+       FROM notes_fts f JOIN notes n ON n.id = f.note_id
+       WHERE notes_fts MATCH ? AND n.vault_id = ? AND n.archived_at IS NULL${sql}
+     ) ${minScore}
+     ORDER BY score DESC
+     LIMIT ? OFFSET ?`,
+    match, vault, ...params,
+    ...(filters.minScore !== undefined ? [filters.minScore] : []),
+    filters.limit, filters.offset
+  );
+  return rows.map(row => ({ ...row, tags: parseTags(row.tags) }));
+}
+
+/**
+ * Search notes with FTS5, ranked by bm25 with the title boosted.
+ * Queries using FTS5 syntax (`"exact phrase"`, `auth*`, `a AND NOT b`) are
+ * passed through; if they fail to parse they are retried as plain keywords.
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault to search
+ * @param {string} query - Search query
+ * @param {SearchFilters} [filters] - Note filters, min_score and paging (default: first 10 results)
+ * @returns {Promise<FullTextHit[]>}
+ */
+export async function searchFullText(
+  db: NotesDatabase,
+  vault: string,
+  query: string,
+  filters: SearchFilters = parseSearchFilters()
+): Promise<FullTextHit[]> {
+  if (isAdvancedFtsQuery(query)) {
+    try {
+      return await runFullTextQuery(db, vault, query, filters);
+    } catch {
+      // Malformed FTS5 expression (e.g. an unbalanced quote): use the words instead
+    }
+  }
+  const match = buildFtsQuery(query);
+  return match ? runFullTextQuery(db, vault, match, filters) : [];
+}
+
+/**
+ * Format full-text hits for a text tool response
+ * @param {FullTextHit[]} hits - Output of searchFullText
+ * @returns {string}
+ */
+export function formatFullTextResults(hits: FullTextHit[]): string {
+  if (hits.length === 0) {
+    return 'No results found';
+  }
+  return hits.map(hit => [
+    `ID: ${hit.id}`,
+    `Title: ${hit.title}`,
+    hit.tags.length ? `Tags: ${hit.tags.join(', ')}` : '',
+    `Score: ${hit.score.toFixed(3)}`,
+    `Match: ${hit.snippet}`
+  ].filter(Boolean).join('\n')).join('\n\n');
+}
@@ -0,0 +1,111 @@
+/**
+ * Graph traversal over the links table (getNeighbors, findPaths)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteNoteRepository, openSqliteRepository } from './repository.js';
+import { getNeighbors, findPaths, formatPaths, pathDepth, MAX_PATH_DEPTH } from './graph.js';
+
+/**
+ * a —extends→ b —supports→ c —refines→ d, e —relates→ a, and b —exemplifies→ x
+ * with x archived
+ */
+async function openGraph(): Promise<SqliteNoteRepository> {
+  const repo = await openSqliteRepository(':memory:');
+  for (const id of ['a', 'b', 'c', 'd', 'e', 'x']) {
+    await repo.createNote({ id, title: `Note ${id}`, content: id });
+  }
+  await repo.createLink({ from: 'a', to: 'b', type: 'extends' });
+  await repo.createLink({ from: 'b', to: 'c', type: 'supports' });
+  await repo.createLink({ from: 'c', to: 'd', type: 'refines' });
+  await repo.createLink({ from: 'e', to: 'a', type: 'relates' });
+  await repo.createLink({ from: 'b', to: 'x', type: 'exemplifies' });
+  await repo.archiveNote('x');
+  return repo;
+}
+
+function depths(graph: { nodes: Array<{ id: string; depth: number }> }): Record<string, number> {
+  return Object.fromEntries(graph.nodes.map(node => [node.id, node.depth]));
+}
+
+test('neighbors are found breadth-first up to the requested depth, in both directions', async () => {
+  const repo = await openGraph();
+  try {
+    const one = await getNeighbors(repo, 'a');
+    assert.equal(one.root.id, 'a');
+    assert.deepEqual(depths(one), { b: 1, e: 1 });
+    assert.equal(one.edges.length, 2);
+
+    const three = await getNeighbors(repo, 'a', { depth: 3 });
+    assert.deepEqual(depths(three), { b: 1, e: 1, c: 2, d: 3 });
+  } finally {
+    await repo.close();
+  }
+});
+
+test('the direction filter follows links only with or against their stored direction', async () => {
+  const repo = await openGraph();
+  try {
+    assert.deepEqual(depths(await getNeighbors(repo, 'b', { depth: 2, direction: 'outgoing' })), { c: 1, d: 2 });
+    assert.deepEqual(depths(await getNeighbors(repo, 'b', { depth: 2, direction: 'incoming' })), { a: 1, e: 2 });
+  } finally {
+    await repo.close();
+  }
+});
+
+test('the type filter accepts inverse names and skips other links', async () => {
+  const repo = await openGraph();
+  try {
+    const graph = await getNeighbors(repo, 'b', { depth: 3, types: ['extended_by', 'relates'] });
+    assert.deepEqual(depths(graph), { a: 1, e: 2 });
+    assert.deepEqual(graph.edges.map(edge => edge.type).sort(), ['extends', 'relates']);
+    await assert.rejects(getNeighbors(repo, 'b', { types: ['causes'] }), /Unknown link type "causes"/);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('archived notes are left out and the depth is clamped', async () => {
+  const repo = await openGraph();
+  try {
+    assert.ok(!(await getNeighbors(repo, 'b')).nodes.some(node => node.id === 'x'));
+    assert.deepEqual(depths(await getNeighbors(repo, 'a', { depth: 0 })), { b: 1, e: 1 });
+    await assert.rejects(getNeighbors(repo, 'missing'), /Note not found/);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('paths are returned shortest first, walking links in either direction', async () => {
+  const repo = await openGraph();
+  try {
+    await repo.createLink({ from: 'e', to: 'd', type: 'supports' });
+    const ids = (paths: Array<{ nodes: Array<{ id: string }> }>) => paths.map(p => p.nodes.map(node => node.id).join(''));
+
+    const [shortest, ...rest] = await findPaths(repo, 'a', 'd');
+    assert.deepEqual(rest, []);
+    assert.deepEqual(ids([shortest]), ['aed']);
+    assert.deepEqual(shortest.hops, [{ type: 'relates', forward: false }, { type: 'supports', forward: true }]);
+
+    assert.deepEqual(ids(await findPaths(repo, 'a', 'd', { limit: 3 })), ['aed', 'abcd']);
+    assert.deepEqual(ids(await findPaths(repo, 'a', 'd', { types: ['refines', 'supported_by', 'extends'] })), ['abcd']);
+    assert.deepEqual(await findPaths(repo, 'a', 'd', { maxDepth: 1 }), []);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('path depth is clamped at both ends and reported when nothing is found', async () => {
+  const repo = await openGraph();
+  try {
+    assert.equal(pathDepth(0), 1);
+    assert.equal(pathDepth(-3), 1);
+    assert.equal(pathDepth(100), MAX_PATH_DEPTH);
+    assert.deepEqual(await findPaths(repo, 'a', 'c', { maxDepth: 0 }), []);
+    assert.equal(formatPaths([], 'a', 'c', 0), 'No path between a and c within 1 hops');
+    await assert.rejects(findPaths(repo, 'a', 'missing'), /One or both notes not found/);
+  } finally {
+    await repo.close();
+  }
+});
@@ -0,0 +1,289 @@
+/**
+ * Graph traversal over the `links` table shared by both MCP servers
+ */
+
+import { NotesDatabase } from './types.js';
+import { resolveLinkType } from './link-types.js';
+import type { NoteRepository } from './repository.js';
+
+export type LinkDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface GraphNode {
+  id: string;
+  title: string;
+  /** Number of hops from the root note */
+  depth: number;
+}
+
+export interface GraphEdge {
+  from_id: string;
+  from_title: string;
+  to_id: string;
+  to_title: string;
+  type: string;
+}
+
+export interface Subgraph {
+  root: GraphNode;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface NeighborOptions {
+  depth?: number;
+  /** Link types to follow; inverse names match their forward type */
+  types?: string[];
+  direction?: LinkDirection;
+}
+
+/** Upper bound on `depth` so a single call cannot walk the whole vault */
+export const MAX_NEIGHBOR_DEPTH = 5;
+
+/**
+ * Links touching any of `ids`, in the requested direction(s), between non-archived notes
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string[]} ids - Note IDs
+ * @param {LinkDirection} direction - Which side of the link `ids` must be on
+ * @param {string[]} [types] - Canonical link types to keep
+ * @returns {Promise<GraphEdge[]>}
+ */
+export async function getEdgesTouching(
+  db: NotesDatabase,
+  vault: string,
+  ids: string[],
+  direction: LinkDirection,
+  types?: string[]
+): Promise<GraphEdge[]> {
+  const idList = ids.map(() => '?').join(',');
+  const sides = [];
+  if (direction !== 'incoming') sides.push(`l.from_id IN (${idList})`);
+  if (direction !== 'outgoing') sides.push(`l.to_id IN (${idList})`);
+  const params: string[] = [vault, ...sides.flatMap(() => ids)];
+  let typeFilter = '';
+  if (types?.length) {
+    typeFilter = `AND l.type IN (${types.map(() => '?').join(',')})`;
+    params.push(...types);
+  }
+  return db.all<GraphEdge[]>(
+    `SELECT l.from_id, f.title AS from_title, l.to_id, t.title AS to_title, l.type
+     FROM links l
+     JOIN notes f ON f.id = l.from_id
+     JOIN notes t ON t.id = l.to_id
+     WHERE l.vault_id = ? AND (${sides.join(' OR ')}) ${typeFilter}
+       AND f.archived_at IS NULL AND t.archived_at IS NULL`,
+    ...params
+  );
+}
+
+/**
+ * Map requested type filters (forward or inverse names) onto stored type names
+ * @param {string[]} [types] - Types given by the caller
+ * @returns {string[] | undefined} Canonical names, or undefined for "all types"
+ * @throws {Error} If a type is unknown
+ */
+export function canonicalLinkTypes(types?: string[]): string[] | undefined {
+  if (!types?.length) {
+    return undefined;
+  }
+  return [...new Set(types.map(type => resolveLinkType(type).definition.name))];
+}
+
+/**
+ * Breadth-first walk from a note, returning every note within `depth` hops
+ * and the links that were followed to reach them
+ * @param {NoteRepository} repo - Note storage
+ * @param {string} id - Root note ID
+ * @param {NeighborOptions} [options] - Depth, type and direction filters
+ * @returns {Promise<Subgraph>}
+ * @throws {Error} If the root note does not exist or a type filter is unknown
+ */
+export async function getNeighbors(repo: NoteRepository, id: string, options: NeighborOptions = {}): Promise<Subgraph> {
+  const depth = Math.min(Math.max(Math.floor(options.depth ?? 1), 1), MAX_NEIGHBOR_DEPTH);
+  const direction = options.direction ?? 'both';
+  const types = canonicalLinkTypes(options.types);
+
+  const root = await repo.getNote(id);
+  if (!root) {
+    throw new Error('Note not found');
+  }
+
+  const nodes = new Map<string, GraphNode>([[root.id, { id: root.id, title: root.title, depth: 0 }]]);
+  const edges = new Map<string, GraphEdge>();
+  let frontier = [root.id];
+
+  for (let level = 1; level <= depth && frontier.length; level++) {
+    const found = await repo.getEdgesTouching(frontier, direction, types);
+    const inFrontier = new Set(frontier);
+    const next: string[] = [];
+    for (const edge of found) {
+      // Only follow the edge away from the frontier in the allowed direction
+      const candidates: Array<[string, string]> = [];
+      if (direction !== 'incoming' && inFrontier.has(edge.from_id)) candidates.push([edge.to_id, edge.to_title]);
+      if (direction !== 'outgoing' && inFrontier.has(edge.to_id)) candidates.push([edge.from_id, edge.from_title]);
+      if (!candidates.length) continue;
+
+      edges.set(`${edge.from_id}|${edge.to_id}|${edge.type}`, edge);
+      for (const [otherId, otherTitle] of candidates) {
+        if (!nodes.has(otherId)) {
+          nodes.set(otherId, { id: otherId, title: otherTitle, depth: level });
+          next.push(otherId);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const [rootNode, ...others] = nodes.values();
+  return { root: rootNode, nodes: others, edges: [...edges.values()] };
+}
+
+export interface PathHop {
+  type: string;
+  /** False when the link was walked against its stored direction */
+  forward: boolean;
+}
+
+export interface NotePath {
+  nodes: Array<{ id: string; title: string }>;
+  /** hops[i] connects nodes[i] and nodes[i + 1] */
+  hops: PathHop[];
+}
+
+export interface PathOptions {
+  maxDepth?: number;
+  /** Number of paths to return, shortest first */
+  limit?: number;
+  types?: string[];
+}
+
+/** Default and upper bound on path length, so large vaults stay fast */
+export const DEFAULT_PATH_DEPTH = 6;
+export const MAX_PATH_DEPTH = 10;
+export const MAX_PATHS = 10;
+
+/**
+ * Depth guard findPaths applies for a requested max_depth
+ * @param {number} [maxDepth] - Requested depth; DEFAULT_PATH_DEPTH when omitted
+ * @returns {number} Between 1 and MAX_PATH_DEPTH
+ */
+export function pathDepth(maxDepth: number = DEFAULT_PATH_DEPTH): number {
+  return Math.min(Math.max(Math.floor(maxDepth), 1), MAX_PATH_DEPTH);
+}
+
+/**
+ * Shortest link paths between two notes, following links in either direction.
+ * With `limit` > 1 each note is expanded by at most `limit` partial paths,
+ * which keeps the search linear in vault size while still finding the top-k
+ * shortest simple paths in practice.
+ * @param {NoteRepository} repo - Note storage
+ * @param {string} fromId - Start note ID
+ * @param {string} toId - End note ID
+ * @param {PathOptions} [options] - Depth guard, number of paths and type filter
+ * @returns {Promise<NotePath[]>} Paths ordered by length; empty if none within maxDepth
+ * @throws {Error} If either note does not exist or a type filter is unknown
+ */
+export async function findPaths(
+  repo: NoteRepository,
+  fromId: string,
+  toId: string,
+  options: PathOptions = {}
+): Promise<NotePath[]> {
+  const maxDepth = pathDepth(options.maxDepth);
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? 1), 1), MAX_PATHS);
+  const types = canonicalLinkTypes(options.types);
+
+  const ends = (await repo.getNotes([fromId, toId])).map(n => ({ id: n.id, title: n.title }));
+  const start = ends.find(n => n.id === fromId);
+  const goal = ends.find(n => n.id === toId);
+  if (!start || !goal) {
+    throw new Error('One or both notes not found');
+  }
+  if (fromId === toId) {
+    return [{ nodes: [start], hops: [] }];
+  }
+
+  const found: NotePath[] = [];
+  const expansions = new Map<string, number>([[fromId, 1]]);
+  let partial: NotePath[] = [{ nodes: [start], hops: [] }];
+
+  for (let length = 1; length <= maxDepth && partial.length && found.length < limit; length++) {
+    const tails = [...new Set(partial.map(p => p.nodes[p.nodes.length - 1].id))];
+    const adjacency = new Map<string, Array<{ node: { id: string; title: string }; hop: PathHop }>>();
+    const addStep = (from: string, node: { id: string; title: string }, hop: PathHop) => {
+      if (!adjacency.has(from)) adjacency.set(from, []);
+      adjacency.get(from)!.push({ node, hop });
+    };
+    for (const edge of await repo.getEdgesTouching(tails, 'both', types)) {
+      addStep(edge.from_id, { id: edge.to_id, title: edge.to_title }, { type: edge.type, forward: true });
+      addStep(edge.to_id, { id: edge.from_id, title: edge.from_title }, { type: edge.type, forward: false });
+    }
+    const next: NotePath[] = [];
+    for (const path of partial) {
+      const tail = path.nodes[path.nodes.length - 1].id;
+      const visited = new Set(path.nodes.map(n => n.id));
+      for (const { node: other, hop } of adjacency.get(tail) ?? []) {
+        if (visited.has(other.id)) continue;
+        const extended = { nodes: [...path.nodes, other], hops: [...path.hops, hop] };
+        if (other.id === toId) {
+          found.push(extended);
+          continue;
+        }
+        const seen = expansions.get(other.id) ?? 0;
+        if (seen >= limit) continue;
+        expansions.set(other.id, seen + 1);
+        next.push(extended);
+      }
+    }
+    partial = next;
+  }
+  return found.slice(0, limit);
+}
+
+/**
+ * Render one path as `A —extends→ B ←supports— C`
+ * @param {NotePath} path - Path to render
+ * @returns {string}
+ */
+export function formatPath(path: NotePath): string {
+  return path.nodes.map((node, i) => {
+    const label = `${node.title} (${node.id})`;
+    const hop = path.hops[i];
+    if (!hop) return label;
+    return hop.forward ? `${label} —${hop.type}→ ` : `${label} ←${hop.type}— `;
+  }).join('');
+}
+
+/**
+ * Format the result of findPaths for a text tool response
+ * @param {NotePath[]} paths - Output of findPaths
+ * @param {string} fromId - Start note ID
+ * @param {string} toId - End note ID
+ * @param {number} [maxDepth] - Depth requested of findPaths
+ * @returns {string}
+ */
+export function formatPaths(paths: NotePath[], fromId: string, toId: string, maxDepth?: number): string {
+  if (!paths.length) {
+    return `No path between ${fromId} and ${toId} within ${pathDepth(maxDepth)} hops`;
+  }
+  const lines = paths.map((p, i) => `${i + 1}. (${p.hops.length} hop${p.hops.length === 1 ? '' : 's'}) ${formatPath(p)}`);
+  return `Found ${paths.length} path(s) from ${fromId} to ${toId}:\n${lines.join('\n')}`;
+}
+
+/**
+ * Format a subgraph for a text tool response
+ * @param {Subgraph} graph - Output of getNeighbors
+ * @returns {string} Nodes grouped by depth followed by the edges
+ */
+export function formatSubgraph(graph: Subgraph): string {
+  if (!graph.nodes.length) {
+    return `No linked notes found for "${graph.root.title}" (${graph.root.id})`;
+  }
+  const nodes = graph.nodes
+    .map(n => `[depth ${n.depth}] ${n.title} (${n.id})`)
+    .join('\n');
+  const edges = graph.edges
+    .map(e => `- ${e.from_title} (${e.from_id}) —${e.type}→ ${e.to_title} (${e.to_id})`)
+    .join('\n');
+  return `Neighbors of "${graph.root.title}" (${graph.root.id}):\n${nodes}\n\nLinks:\n${edges}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Hybrid search: reciprocal rank fusion of Mem0 and full-text results (hybridSearch)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteNoteRepository, openSqliteRepository } from './repository.js';
+import { SemanticIndex, SemanticMemory } from './semantic-index.js';
+import { hybridSearch, RRF_K } from './hybrid.js';
+import { parseSearchFilters } from './search-filters.js';
+import { Logger } from './logger.js';
+
+/** Index answering every search with `results`, or failing if they are an error */
+function fakeIndex(results: SemanticMemory[] | Error): SemanticIndex {
+  return {
+    name: 'Mem0',
+    add: async () => [],
+    findByNote: async () => [],
+    list: async () => [],
+    get: async () => null,
+    delete: async () => {},
+    search: async () => {
+      if (results instanceof Error) throw results;
+      return results;
+    }
+  };
+}
+
+function memory(noteId: string, score: number): SemanticMemory {
+  return { id: `m-${noteId}`, memory: `[${noteId}] memory`, score, metadata: { noteId } };
+}
+
+async function openNotes(): Promise<SqliteNoteRepository> {
+  const repo = await openSqliteRepository(':memory:');
+  await repo.createNote({ id: 'a', title: 'Caching', content: 'Memoization trades memory for speed' });
+  await repo.createNote({ id: 'b', title: 'Tokens', content: 'Refresh tokens before they expire' });
+  await repo.createNote({ id: 'c', title: 'Session tokens', content: 'Cache session tokens' });
+  await repo.createNote({ id: 'd', title: 'Archived', content: 'Old tokens' });
+  await repo.archiveNote('d');
+  return repo;
+}
+
+function recordingLogger(): Logger & { warnings: string[] } {
+  const warnings: string[] = [];
+  return { warnings, info() {}, warn: message => { warnings.push(message); }, error() {}, debug() {} };
+}
+
+test('notes found by both sources are ranked first, with the RRF score summed over the sources', async () => {
+  const repo = await openNotes();
+  try {
+    const index = fakeIndex([memory('a', 0.9), memory('c', 0.8), memory('d', 0.7), { id: 'm-x', memory: 'unrelated' }]);
+    const { hits, sources, errors } = await hybridSearch(repo, index, 'session tokens');
+    assert.deepEqual(sources, ['mem0', 'fts']);
+    assert.deepEqual(errors, {});
+
+    assert.equal(hits[0].id, 'c');
+    assert.equal(hits[0].ranks.mem0, 2);
+    assert.equal(hits[0].scores.mem0, 0.8);
+    assert.equal(hits[0].scores.rrf, 1 / (RRF_K + hits[0].ranks.fts!) + 1 / (RRF_K + 2));
+    assert.deepEqual(hits.map(hit => hit.id).sort(), ['a', 'b', 'c']);
+
+    const a = hits.find(hit => hit.id === 'a')!;
+    assert.deepEqual(a.ranks, { mem0: 1 });
+    assert.equal(a.match, '[a] memory');
+  } finally {
+    await repo.close();
+  }
+});
+
+test('paging and min_score apply to the fused ranking', async () => {
+  const repo = await openNotes();
+  try {
+    const index = fakeIndex([memory('a', 0.9), memory('c', 0.8)]);
+    const all = (await hybridSearch(repo, index, 'session tokens')).hits.map(hit => hit.id);
+    const { hits } = await hybridSearch(repo, index, 'session tokens', parseSearchFilters({ limit: 1, offset: 1 }));
+    assert.deepEqual(hits.map(hit => hit.id), [all[1]]);
+
+    const strict = await hybridSearch(repo, index, 'session tokens', parseSearchFilters({ min_score: 2 / (RRF_K + 2) }));
+    assert.deepEqual(strict.hits.map(hit => hit.id), ['c']);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('a failed source is logged and reported, and the other one still answers', async () => {
+  const repo = await openNotes();
+  try {
+    const logger = recordingLogger();
+    const { hits, sources, errors } = await hybridSearch(repo, fakeIndex(new Error('Mem0 down')), 'tokens', undefined, logger);
+    assert.deepEqual(sources, ['fts']);
+    assert.deepEqual(errors, { mem0: 'Mem0 down' });
+    assert.deepEqual(hits.map(hit => hit.id).sort(), ['b', 'c']);
+    assert.ok(hits.every(hit => hit.ranks.mem0 === undefined));
+    assert.equal(logger.warnings.length, 1);
+    assert.match(logger.warnings[0], /Mem0 search failed, using full-text results only: Mem0 down/);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('the search fails only when both sources do', async () => {
+  const repo = await openNotes();
+  try {
+    repo.searchFullText = async () => { throw new Error('FTS down'); };
+    const { sources, errors } = await hybridSearch(repo, fakeIndex([memory('a', 0.9)]), 'tokens');
+    assert.deepEqual(sources, ['mem0']);
+    assert.deepEqual(errors, { fts: 'FTS down' });
+    await assert.rejects(hybridSearch(repo, fakeIndex(new Error('Mem0 down')), 'tokens'), /Mem0 down/);
+  } finally {
+    await repo.close();
+  }
+});
@@ -0,0 +1,132 @@
+/**
+ * Hybrid search: Mem0 vector results fused with local FTS5 results
+ */
+
+import { FullTextHit } from './fulltext.js';
+import { resolveMemoryHits } from './note-memories.js';
+import { SearchFilters, parseSearchFilters, MEM0_OVERFETCH, hasNoteFilters } from './search-filters.js';
+import { NoteRepository } from './repository.js';
+import { SemanticIndex } from './semantic-index.js';
+import { Logger } from './logger.js';
+
+/** Reciprocal rank fusion constant; 60 is the value from the original RRF paper */
+export const RRF_K = 60;
+
+export interface HybridHit {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  /** FTS snippet, or the Mem0 memory text when only Mem0 matched */
+  match: string;
+  scores: { rrf: number; mem0?: number; fts?: number };
+  /** 1-based rank of the note in each source */
+  ranks: { mem0?: number; fts?: number };
+  via: 'hybrid';
+}
+
+export type HybridSource = 'mem0' | 'fts';
+
+export interface HybridResult {
+  hits: HybridHit[];
+  /** Sources that answered: both, unless one failed */
+  sources: HybridSource[];
+  /** Error of each source that failed */
+  errors: Partial<Record<HybridSource, string>>;
+}
+
+/**
+ * Run Mem0 and full-text search in parallel and merge them with reciprocal
+ * rank fusion. Mem0 hits are resolved to their notes; hits that cannot be
+ * resolved, or that belong to archived notes, are dropped. If one source fails
+ * the other's results are still returned; the failure is logged and reported
+ * in `errors`, and `sources` names only the source that answered.
+ * @param {NoteRepository} repo - Note storage, searched with full-text
+ * @param {SemanticIndex} index - Semantic index
+ * @param {string} query - Search query
+ * @param {SearchFilters} [filters] - Note filters, paging, and min_score applied to the fused score
+ * @param {Logger} [logger] - Told about a source that failed
+ * @returns {Promise<HybridResult>} Hits ordered by fused score, and the sources they came from
+ * @throws {Error} Only if both sources fail
+ */
+export async function hybridSearch(
+  repo: NoteRepository,
+  index: SemanticIndex,
+  query: string,
+  filters: SearchFilters = parseSearchFilters(),
+  logger?: Logger
+): Promise<HybridResult> {
+  // Fetch deeper than the page so fusion can promote notes ranked lower by one source
+  const depth = (filters.offset + filters.limit) * 2;
+  const [mem0Result, ftsResult] = await Promise.allSettled([
+    index.search(query, hasNoteFilters(filters) ? depth * MEM0_OVERFETCH : depth, filters),
+    repo.searchFullText(query, { ...filters, limit: depth, offset: 0, minScore: undefined })
+  ]);
+  if (mem0Result.status === 'rejected' && ftsResult.status === 'rejected') {
+    throw mem0Result.reason;
+  }
+  const sources: HybridSource[] = [];
+  const errors: Partial<Record<HybridSource, string>> = {};
+  for (const [source, result] of [['mem0', mem0Result], ['fts', ftsResult]] as const) {
+    if (result.status === 'fulfilled') {
+      sources.push(source);
+    } else {
+      errors[source] = result.reason?.message ?? String(result.reason);
+      logger?.warn(`Hybrid search: ${source === 'mem0' ? index.name : 'full-text'} search failed, using ` +
+        `${source === 'mem0' ? 'full-text' : index.name} results only: ${errors[source]}`);
+    }
+  }
+
+  const hits = new Map<string, HybridHit>();
+  const fuse = (id: string, rank: number, source: 'mem0' | 'fts', score: number, base: Omit<HybridHit, 'scores' | 'ranks' | 'via'>) => {
+    const hit = hits.get(id) ?? { ...base, scores: { rrf: 0 }, ranks: {}, via: 'hybrid' as const };
+    if (hit.ranks[source] !== undefined) return; // keep each note's best rank per source
+    hit.ranks[source] = rank;
+    hit.scores[source] = score;
+    hit.scores.rrf += 1 / (RRF_K + rank);
+    hits.set(id, hit);
+  };
+
+  const ftsHits: FullTextHit[] = ftsResult.status === 'fulfilled' ? ftsResult.value : [];
+  ftsHits.forEach((hit, i) => fuse(hit.id, i + 1, 'fts', hit.score, {
+    id: hit.id, title: hit.title, content: hit.content, tags: hit.tags, match: hit.snippet
+  }));
+
+  let memoryHits = await resolveMemoryHits(repo, mem0Result.status === 'fulfilled' ? mem0Result.value : []);
+  if (hasNoteFilters(filters)) {
+    const allowed = await repo.filterNoteIds(memoryHits.map(hit => hit.id), filters);
+    memoryHits = memoryHits.filter(hit => allowed.has(hit.id));
+  }
+  memoryHits.slice(0, depth).forEach((hit, i) => fuse(hit.id, i + 1, 'mem0', hit.score, {
+    id: hit.id, title: hit.title, content: hit.content, tags: hit.tags, match: hit.memory
+  }));
+
+  const ranked = [...hits.values()]
+    .filter(hit => filters.minScore === undefined || hit.scores.rrf >= filters.minScore)
+    .sort((a, b) => b.scores.rrf - a.scores.rrf)
+    .slice(filters.offset, filters.offset + filters.limit);
+  return { hits: ranked, sources, errors };
+}
+
+/**
+ * Format hybrid hits for a text tool response
+ * @param {HybridHit[]} hits - Output of hybridSearch
+ * @returns {string}
+ */
+export function formatHybridResults(hits: HybridHit[]): string {
+  if (hits.length === 0) {
+    return 'No results found';
+  }
+  return hits.map(hit => {
+    const sources = [`rrf ${hit.scores.rrf.toFixed(4)}`];
+    if (hit.ranks.mem0 !== undefined) sources.push(`mem0 ${hit.scores.mem0!.toFixed(3)} (#${hit.ranks.mem0})`);
+    if (hit.ranks.fts !== undefined) sources.push(`fts ${hit.scores.fts!.toFixed(3)} (#${hit.ranks.fts})`);
+    return [
+      `ID: ${hit.id}`,
+      `Title: ${hit.title}`,
+      hit.tags.length ? `Tags: ${hit.tags.join(', ')}` : '',
+      `Scores: ${sources.join(' | ')}`,
+      `Match: ${hit.match}`
+    ].filter(Boolean).join('\n');
+  }).join('\n\n');
+}
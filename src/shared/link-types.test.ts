@@ -0,0 +1,88 @@
+/**
+ * Link type registry and the canonical form links are stored in (link-types.ts, links.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  registerLinkType, loadLinkTypeConfig, resolveLinkType, inverseLinkType, listLinkTypeNames
+} from './link-types.js';
+import { canonicalLink, formatNoteLinks } from './links.js';
+import { openSqliteRepository } from './repository.js';
+
+test('inverse names resolve to their forward type, reversed', () => {
+  assert.equal(resolveLinkType('extends').reversed, false);
+  const { definition, reversed } = resolveLinkType('extended_by');
+  assert.equal(definition.name, 'extends');
+  assert.equal(reversed, true);
+  assert.equal(resolveLinkType('relates').reversed, false);
+  assert.equal(inverseLinkType('supports'), 'supported_by');
+  assert.equal(inverseLinkType('relates'), 'relates');
+  assert.throws(() => resolveLinkType('causes'), /Unknown link type "causes"\. Valid types: extends, extended_by/);
+});
+
+test('a link given by its inverse name is stored as the forward type in the opposite direction', () => {
+  assert.deepEqual(canonicalLink({ from: 'a', to: 'b', type: 'supported_by' }), { from: 'b', to: 'a', type: 'supports', symmetric: false });
+  assert.deepEqual(canonicalLink({ from: 'a', to: 'b', type: 'relates' }), { from: 'a', to: 'b', type: 'relates', symmetric: true });
+});
+
+test('a link and its inverse are the same stored link, and symmetric links are stored once per pair', async () => {
+  const repo = await openSqliteRepository(':memory:');
+  try {
+    await repo.createNote({ id: 'a', title: 'Note a', content: 'a' });
+    await repo.createNote({ id: 'b', title: 'Note b', content: 'b' });
+
+    assert.equal((await repo.createLink({ from: 'a', to: 'b', type: 'extends' })).created, true);
+    const inverse = await repo.createLink({ from: 'b', to: 'a', type: 'extended_by' });
+    assert.equal(inverse.created, false);
+    assert.equal(inverse.link.from_id, 'a');
+
+    assert.equal((await repo.createLink({ from: 'a', to: 'b', type: 'relates' })).created, true);
+    assert.equal((await repo.createLink({ from: 'b', to: 'a', type: 'relates' })).created, false);
+
+    const links = await repo.getNoteLinks('b');
+    assert.deepEqual(links.outgoing, []);
+    assert.equal(formatNoteLinks(links), 'Incoming links:\n- extended_by → Note a (a)\n- relates → Note a (a)');
+  } finally {
+    await repo.close();
+  }
+});
+
+test('registering rejects a non-symmetric type that is its own inverse, and names already taken', () => {
+  assert.throws(
+    () => registerLinkType({ name: 'mirrors', inverse: 'mirrors', symmetric: false, description: '' }),
+    /Link type "mirrors" is its own inverse: declare it "symmetric": true/
+  );
+  assert.throws(
+    () => registerLinkType({ name: 'builds_on', inverse: 'extended_by', symmetric: false, description: '' }),
+    /Link type "extended_by" is already defined/
+  );
+  assert.throws(
+    () => registerLinkType({ name: 'Causes', inverse: 'caused_by', symmetric: false, description: '' }),
+    /Invalid link type name "Causes"/
+  );
+});
+
+test('custom types from the config file are accepted by their name and inverse', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'link-types-'));
+  try {
+    const file = path.join(dir, 'link-types.json');
+    assert.deepEqual(loadLinkTypeConfig(file), []);
+
+    fs.writeFileSync(file, JSON.stringify({ linkTypes: [
+      { name: 'implements', inverse: 'implemented_by', description: 'Concrete implementation of' },
+      { name: 'similar_to', symmetric: true }
+    ] }));
+    assert.deepEqual(loadLinkTypeConfig(file).map(type => type.name), ['implements', 'similar_to']);
+    assert.deepEqual(listLinkTypeNames().slice(-3), ['implements', 'implemented_by', 'similar_to']);
+    assert.deepEqual(canonicalLink({ from: 'a', to: 'b', type: 'implemented_by' }), { from: 'b', to: 'a', type: 'implements', symmetric: false });
+
+    fs.writeFileSync(file, JSON.stringify([{ name: 'causes' }]));
+    assert.throws(() => loadLinkTypeConfig(file), /link type "causes" needs an "inverse" or "symmetric": true/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,145 @@
+/**
+ * Link type registry: the relationship vocabulary accepted by zk_create_link
+ *
+ * Built-in types mirror the Zettelkasten methodology. Extra types can be
+ * declared in a JSON config file:
+ *
+ *   { "linkTypes": [
+ *       { "name": "implements", "inverse": "implemented_by", "description": "Concrete implementation of" },
+ *       { "name": "similar_to", "symmetric": true, "description": "Same idea, different wording" }
+ *   ] }
+ */
+
+import fs from 'fs';
+
+export interface LinkTypeDefinition {
+  /** Name stored in the links table */
+  name: string;
+  /** Name of the same relationship read from the target note */
+  inverse: string;
+  /** A symmetric type is its own inverse (A relates B ⇔ B relates A) */
+  symmetric: boolean;
+  description: string;
+}
+
+const builtInLinkTypes: LinkTypeDefinition[] = [
+  { name: 'extends', inverse: 'extended_by', symmetric: false, description: 'Builds upon concept' },
+  { name: 'refines', inverse: 'refined_by', symmetric: false, description: 'Improves or details' },
+  { name: 'contradicts', inverse: 'contradicted_by', symmetric: false, description: 'Opposes idea' },
+  { name: 'supports', inverse: 'supported_by', symmetric: false, description: 'Provides evidence' },
+  { name: 'relates', inverse: 'relates', symmetric: true, description: 'General connection' },
+  { name: 'exemplifies', inverse: 'exemplified_by', symmetric: false, description: 'Concrete example' }
+];
+
+const registry = new Map<string, LinkTypeDefinition>();
+builtInLinkTypes.forEach(registerLinkType);
+
+/**
+ * Add a link type to the registry
+ * @param {LinkTypeDefinition} definition - Type to add
+ * @throws {Error} If the name or inverse clashes with a registered type, or a
+ *   non-symmetric type is its own inverse
+ */
+export function registerLinkType(definition: LinkTypeDefinition): void {
+  const { name, inverse, symmetric } = definition;
+  if (!symmetric && inverse === name) {
+    throw new Error(`Link type "${name}" is its own inverse: declare it "symmetric": true`);
+  }
+  for (const value of symmetric ? [name] : [name, inverse]) {
+    if (!/^[a-z][a-z0-9_]*$/.test(value)) {
+      throw new Error(`Invalid link type name "${value}": use lowercase letters, digits and underscores`);
+    }
+    if (findDefinition(value)) {
+      throw new Error(`Link type "${value}" is already defined`);
+    }
+  }
+  registry.set(name, { ...definition, inverse: symmetric ? name : inverse });
+}
+
+/**
+ * Load user-defined link types from a JSON config file, if it exists
+ * @param {string} filePath - Path to the config file
+ * @returns {LinkTypeDefinition[]} Types that were added
+ * @throws {Error} If the file exists but is malformed
+ */
+export function loadLinkTypeConfig(filePath: string): LinkTypeDefinition[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const entries: any[] = Array.isArray(parsed) ? parsed : parsed.linkTypes;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${filePath}: expected an array or { "linkTypes": [...] }`);
+  }
+  return entries.map((entry) => {
+    if (!entry || typeof entry.name !== 'string') {
+      throw new Error(`${filePath}: every link type needs a "name"`);
+    }
+    const symmetric = entry.symmetric === true;
+    if (!symmetric && typeof entry.inverse !== 'string') {
+      throw new Error(`${filePath}: link type "${entry.name}" needs an "inverse" or "symmetric": true`);
+    }
+    const definition: LinkTypeDefinition = {
+      name: entry.name,
+      inverse: symmetric ? entry.name : entry.inverse,
+      symmetric,
+      description: typeof entry.description === 'string' ? entry.description : ''
+    };
+    registerLinkType(definition);
+    return definition;
+  });
+}
+
+/**
+ * Registered link types, built-in first
+ * @returns {LinkTypeDefinition[]}
+ */
+export function listLinkTypes(): LinkTypeDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Every value zk_create_link accepts: each type name plus each non-symmetric inverse
+ * @returns {string[]}
+ */
+export function listLinkTypeNames(): string[] {
+  return listLinkTypes().flatMap(t => t.symmetric ? [t.name] : [t.name, t.inverse]);
+}
+
+/**
+ * One-line description of a link type for tool schemas and docs
+ * @param {LinkTypeDefinition} type - Registered type
+ * @returns {string} e.g. `extends/extended_by: Builds upon concept`
+ */
+export function describeLinkType(type: LinkTypeDefinition): string {
+  const names = type.symmetric ? `${type.name} (symmetric)` : `${type.name}/${type.inverse}`;
+  return type.description ? `${names}: ${type.description}` : names;
+}
+
+function findDefinition(type: string): LinkTypeDefinition | undefined {
+  return registry.get(type) ?? [...registry.values()].find(t => t.inverse === type);
+}
+
+/**
+ * Map a requested link type onto the registry. Inverse names are accepted and
+ * reported as `reversed`, meaning the link must be stored from `to` to `from`.
+ * @param {string} type - Type given by the caller
+ * @returns {{ definition: LinkTypeDefinition, reversed: boolean }}
+ * @throws {Error} Listing the valid types if `type` is unknown
+ */
+export function resolveLinkType(type: string): { definition: LinkTypeDefinition; reversed: boolean } {
+  const definition = findDefinition(type);
+  if (!definition) {
+    throw new Error(`Unknown link type "${type}". Valid types: ${listLinkTypeNames().join(', ')}`);
+  }
+  return { definition, reversed: definition.name !== type };
+}
+
+/**
+ * Name of a stored link type as read from its target note
+ * @param {string} type - Stored link type
+ * @returns {string} The inverse name, or `type` itself for types no longer registered
+ */
+export function inverseLinkType(type: string): string {
+  return registry.get(type)?.inverse ?? type;
+}
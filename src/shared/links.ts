@@ -0,0 +1,121 @@
+/**
+ * Link operations on the SQLite `links` table shared by both MCP servers
+ */
+
+import { withTransaction } from './database.js';
+import { resolveLinkType, inverseLinkType } from './link-types.js';
+import { NotesDatabase, NoteLink, LinkedNote } from './types.js';
+
+export interface NewLink {
+  from: string;
+  to: string;
+  type: string;
+  note?: string;
+  weight?: number;
+}
+
+/**
+ * Resolve the stored form of a requested link: inverse type names become the
+ * forward type in the opposite direction
+ * @param {NewLink} link - Link as requested
+ * @returns {{ from: string, to: string, type: string, symmetric: boolean }}
+ * @throws {Error} If the link type is unknown
+ */
+export function canonicalLink(link: NewLink): { from: string; to: string; type: string; symmetric: boolean } {
+  const { definition, reversed } = resolveLinkType(link.type);
+  const [from, to] = reversed ? [link.to, link.from] : [link.from, link.to];
+  return { from, to, type: definition.name, symmetric: definition.symmetric };
+}
+
+/**
+ * Create a link between two notes. Creating the same link twice is a no-op.
+ * Inverse type names (e.g. `extended_by`) are stored as the forward type in
+ * the opposite direction, and symmetric types are stored once per pair.
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault both notes must belong to
+ * @param {NewLink} link - Link to create
+ * @returns {Promise<{ link: NoteLink, created: boolean }>} The stored link and whether it is new
+ * @throws {Error} If the link type is unknown or either note does not exist
+ */
+export async function createLink(
+  db: NotesDatabase,
+  vault: string,
+  link: NewLink
+): Promise<{ link: NoteLink; created: boolean }> {
+  const { from, to, type, symmetric } = canonicalLink(link);
+  const { note, weight } = link;
+  return withTransaction(db, async () => {
+    const { found } = (await db.get<{ found: number }>(
+      'SELECT COUNT(*) AS found FROM notes WHERE id IN (?, ?) AND vault_id = ?',
+      from, to, vault
+    ))!;
+    if (found < (from === to ? 1 : 2)) {
+      throw new Error('One or both notes not found');
+    }
+    if (symmetric) {
+      const existing = await db.get<NoteLink>(
+        'SELECT * FROM links WHERE from_id=? AND to_id=? AND type=?',
+        to, from, type
+      );
+      if (existing) {
+        return { link: existing, created: false };
+      }
+    }
+    const result = await db.run(
+      'INSERT OR IGNORE INTO links (from_id,to_id,type,note,weight,vault_id) VALUES (?,?,?,?,?,?)',
+      from, to, type, note ?? null, weight ?? null, vault
+    );
+    const stored = await db.get<NoteLink>(
+      'SELECT * FROM links WHERE from_id=? AND to_id=? AND type=?',
+      from, to, type
+    );
+    return { link: stored!, created: (result.changes ?? 0) > 0 };
+  });
+}
+
+/**
+ * Outgoing and incoming links of a note, with the title of the note on the other end
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} id - Note ID
+ * @returns {Promise<{ outgoing: LinkedNote[], incoming: LinkedNote[] }>}
+ */
+export async function getNoteLinks(
+  db: NotesDatabase,
+  vault: string,
+  id: string
+): Promise<{ outgoing: LinkedNote[]; incoming: LinkedNote[] }> {
+  const outgoing = await db.all<LinkedNote[]>(
+    `SELECT l.*, 'outgoing' AS direction, l.to_id AS other_id, n.title AS other_title
+     FROM links l JOIN notes n ON n.id = l.to_id
+     WHERE l.from_id = ? AND l.vault_id = ? ORDER BY l.created_at`,
+    id, vault
+  );
+  const incoming = await db.all<LinkedNote[]>(
+    `SELECT l.*, 'incoming' AS direction, l.from_id AS other_id, n.title AS other_title
+     FROM links l JOIN notes n ON n.id = l.from_id
+     WHERE l.to_id = ? AND l.vault_id = ? ORDER BY l.created_at`,
+    id, vault
+  );
+  return { outgoing, incoming };
+}
+
+/**
+ * Format a note's links for a text tool response
+ * @param {{ outgoing: LinkedNote[], incoming: LinkedNote[] }} links - Output of getNoteLinks
+ * @returns {string} One line per link, or an empty string if there are none
+ */
+export function formatNoteLinks(links: { outgoing: LinkedNote[]; incoming: LinkedNote[] }): string {
+  const sections: string[] = [];
+  if (links.outgoing.length) {
+    sections.push('Outgoing links:\n' + links.outgoing
+      .map(l => `- ${l.type} → ${l.other_title} (${l.other_id})`)
+      .join('\n'));
+  }
+  if (links.incoming.length) {
+    sections.push('Incoming links:\n' + links.incoming
+      .map(l => `- ${inverseLinkType(l.type)} → ${l.other_title} (${l.other_id})`)
+      .join('\n'));
+  }
+  return sections.join('\n');
+}
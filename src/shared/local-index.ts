@@ -0,0 +1,91 @@
+/**
+ * Semantic index kept in the notes database, for running without Mem0 or OpenAI
+ *
+ * Each note becomes one memory (`title: content`) whose embedding is stored in
+ * `local_vectors`; search is a brute-force cosine scan, which is fast enough
+ * for a personal vault. Each vault's vectors are kept apart by `vault_id`.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { NotesDatabase } from './types.js';
+import { Embedder, dot } from './embeddings.js';
+import { SemanticIndex, SemanticMemory, IndexedNote } from './semantic-index.js';
+import { DEFAULT_VAULT } from './vaults.js';
+
+interface VectorRow {
+  id: string;
+  note_id: string;
+  memory: string;
+  vector: Buffer;
+}
+
+function toMemory(row: Omit<VectorRow, 'vector'>, score?: number): SemanticMemory {
+  return { id: row.id, memory: row.memory, score, metadata: { noteId: row.note_id } };
+}
+
+export class LocalSemanticIndex implements SemanticIndex {
+  readonly name = 'local index';
+
+  constructor(
+    private readonly db: NotesDatabase,
+    private readonly embedder: Embedder,
+    private readonly vault: string = DEFAULT_VAULT
+  ) {}
+
+  async add(note: IndexedNote): Promise<string[]> {
+    const id = uuidv4();
+    const memory = `${note.title}: ${note.content}`;
+    const vector = await this.embedder.embed(memory);
+    await this.db.run(
+      'INSERT INTO local_vectors (id, vault_id, note_id, memory, model, vector) VALUES (?, ?, ?, ?, ?, ?)',
+      id, this.vault, note.id, memory, this.embedder.model, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength)
+    );
+    return [id];
+  }
+
+  async findByNote(noteId: string): Promise<string[]> {
+    const rows = await this.db.all<Array<{ id: string }>>(
+      'SELECT id FROM local_vectors WHERE note_id = ? AND vault_id = ? AND model = ?',
+      noteId, this.vault, this.embedder.model
+    );
+    return rows.map(row => row.id);
+  }
+
+  async list(): Promise<SemanticMemory[]> {
+    const rows = await this.db.all<Array<Omit<VectorRow, 'vector'>>>(
+      'SELECT id, note_id, memory FROM local_vectors WHERE vault_id = ? AND model = ?',
+      this.vault, this.embedder.model
+    );
+    return rows.map(row => toMemory(row));
+  }
+
+  async get(memoryId: string): Promise<SemanticMemory | null> {
+    const row = await this.db.get<Omit<VectorRow, 'vector'>>(
+      'SELECT id, note_id, memory FROM local_vectors WHERE id = ?',
+      memoryId
+    );
+    return row ? toMemory(row) : null;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    await this.db.run('DELETE FROM local_vectors WHERE id = ?', memoryId);
+  }
+
+  async search(query: string, limit: number): Promise<SemanticMemory[]> {
+    const target = await this.embedder.embed(query);
+    const rows = await this.db.all<VectorRow[]>(
+      'SELECT id, note_id, memory, vector FROM local_vectors WHERE vault_id = ? AND model = ?',
+      this.vault, this.embedder.model
+    );
+    return rows
+      .map(row => {
+        // Copy out of the Buffer: its byte offset need not be 4-aligned
+        const vector = new Float32Array(new Uint8Array(row.vector).buffer);
+        return { row, score: dot(target, vector) };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ row, score }) => toMemory(row, score));
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * MCP over HTTP: the SDK's Streamable HTTP and legacy SSE server transports
+ *
+ *   POST /mcp      JSON-RPC requests; an initialize without session ID opens a session
+ *   GET /mcp       the session's stream for server notifications
+ *   DELETE /mcp    end the session
+ *   GET /sse       legacy SSE stream (protocol 2024-11-05), one session per stream
+ *   POST /messages legacy SSE requests, `?sessionId=` from the endpoint event
+ *
+ * Every session gets its own MCP server from createMcpServer (so its own
+ * resource subscriptions) over the tool context of the vault its opening
+ * request selected, limited to the scopes of the API key it was opened with;
+ * it keeps both, and only answers requests made with that same key. Open streams get an SSE comment
+ * every `keepaliveMs` so proxies do not drop them; Streamable HTTP sessions
+ * with no open stream are closed after `sessionIdleMs` without requests.
+ */
+
+import { randomUUID } from 'crypto';
+import { Express, Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from './logger.js';
+import { ToolContext, ToolInputError, isNotFoundError } from './tools.js';
+import { NoteChange } from './resources.js';
+import { McpServerInfo, McpServerHandle, createMcpServer } from './mcp-server.js';
+
+export const MCP_SESSION_HEADER = 'mcp-session-id';
+
+export interface McpHttpOptions {
+  /** Server name and version sent on initialize */
+  info: McpServerInfo;
+  /** Tool context of a new session, from its opening request (vault header, API key scopes) */
+  resolveContext: (req: Request, res: Response) => Promise<ToolContext>;
+  /** Who made a request (e.g. the API key ID); a session is only usable by whoever opened it */
+  requestOwner: (res: Response) => string | undefined;
+  logger: Logger;
+  /** Interval of keepalive comments on open streams (ms); 0 disables them */
+  keepaliveMs: number;
+  /** Idle time after which a Streamable HTTP session without open stream is closed (ms) */
+  sessionIdleMs: number;
+}
+
+/** Open sessions, as reported on /health */
+export interface McpSessionCounts {
+  streamable: number;
+  sse: number;
+}
+
+export interface McpHttpSessions {
+  /** Send every session the resource notifications for notes changed by a tool */
+  notifyNoteChange(change: NoteChange): void;
+  counts(): McpSessionCounts;
+  /** Close every session, e.g. on shutdown */
+  closeAll(): Promise<void>;
+}
+
+interface Session<T> {
+  transport: T;
+  mcp: McpServerHandle;
+  /** requestOwner of the opening request */
+  owner: string | undefined;
+  lastSeen: number;
+  /** Open GET streams; a session listening for notifications is not idle */
+  openStreams: number;
+}
+
+/**
+ * Answer with a JSON-RPC error that belongs to no request
+ */
+function rpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Mount the MCP transports on an Express app. Expects JSON bodies to be parsed already.
+ * @param {Express} app - Express app
+ * @param {McpHttpOptions} options - Server info, tool context, logger and timings
+ * @returns {McpHttpSessions}
+ */
+export function mountMcpTransports(app: Express, options: McpHttpOptions): McpHttpSessions {
+  const { info, resolveContext, requestOwner, logger, keepaliveMs, sessionIdleMs } = options;
+  const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+  /** Write keepalive comments to an open stream until it closes */
+  function keepAlive(res: Response): void {
+    if (!keepaliveMs || res.writableEnded) return;
+    const timer = setInterval(() => res.write(': keepalive\n\n'), keepaliveMs);
+    res.on('close', () => clearInterval(timer));
+  }
+
+  /** Whether a request may use a session; answers 403 itself if not */
+  function ownsSession(res: Response, session: Session<unknown>): boolean {
+    if (requestOwner(res) !== session.owner) {
+      rpcError(res, 403, -32000, 'Forbidden: session belongs to another API key');
+      return false;
+    }
+    session.lastSeen = Date.now();
+    return true;
+  }
+
+  /** Streamable HTTP session named by the request header; answers 400/403/404 itself if there is none */
+  function findSession(req: Request, res: Response): Session<StreamableHTTPServerTransport> | undefined {
+    const id = req.header(MCP_SESSION_HEADER);
+    if (!id) {
+      rpcError(res, 400, -32000, `Bad Request: missing ${MCP_SESSION_HEADER} header`);
+      return undefined;
+    }
+    const session = streamableSessions.get(id);
+    if (!session) {
+      // 404 tells the client to start a new session
+      rpcError(res, 404, -32001, 'Session not found');
+      return undefined;
+    }
+    return ownsSession(res, session) ? session : undefined;
+  }
+
+  /** MCP server of a new session; answers 400/404 itself if its vault cannot be used */
+  async function openServer(req: Request, res: Response, transport: 'http' | 'sse'): Promise<McpServerHandle | undefined> {
+    let context: ToolContext;
+    try {
+      context = await resolveContext(req, res);
+    } catch (err: any) {
+      if (!(err instanceof ToolInputError) && !isNotFoundError(err)) throw err;
+      rpcError(res, err instanceof ToolInputError ? 400 : 404, -32602, err.message);
+      return undefined;
+    }
+    return createMcpServer(info, () => context, { transport, address: req.ip });
+  }
+
+  /** Report a failed request, unless the transport already answered it */
+  function failed(res: Response, err: any): void {
+    logger.error(`[MCP] HTTP transport error: ${err.message}`);
+    if (!res.headersSent) {
+      rpcError(res, 500, -32603, 'Internal error');
+    }
+  }
+
+  /**
+   * POST /mcp - JSON-RPC messages; an initialize request without session ID starts a session.
+   */
+  app.post('/mcp', async (req: Request, res: Response) => {
+    try {
+      if (req.header(MCP_SESSION_HEADER)) {
+        const session = findSession(req, res);
+        if (session) await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+      if (!isInitializeRequest(req.body)) {
+        rpcError(res, 400, -32000, `Bad Request: send initialize first, then the ${MCP_SESSION_HEADER} it returns`);
+        return;
+      }
+      const mcp = await openServer(req, res, 'http');
+      if (!mcp) return;
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          streamableSessions.set(id, { transport, mcp, owner: requestOwner(res), lastSeen: Date.now(), openStreams: 0 });
+          logger.info(`[MCP] Streamable HTTP session ${id} opened (${streamableSessions.size} open)`);
+        }
+      });
+      // The server takes over the transport's onclose; it calls its own when the transport closes
+      mcp.server.onclose = () => {
+        const id = transport.sessionId;
+        if (id && streamableSessions.delete(id)) {
+          logger.info(`[MCP] Streamable HTTP session ${id} closed`);
+        }
+      };
+      await mcp.server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (err: any) {
+      failed(res, err);
+    }
+  });
+
+  /**
+   * GET /mcp - Stream of server notifications (resource updates) for a session.
+   */
+  app.get('/mcp', async (req: Request, res: Response) => {
+    const session = findSession(req, res);
+    if (!session) return;
+    try {
+      await session.transport.handleRequest(req, res);
+      // The transport answers 409 if the session already has a stream
+      if (!res.writableEnded) {
+        session.openStreams++;
+        res.on('close', () => {
+          session.openStreams--;
+          session.lastSeen = Date.now();
+        });
+        keepAlive(res);
+      }
+    } catch (err: any) {
+      failed(res, err);
+    }
+  });
+
+  /**
+   * DELETE /mcp - End a session.
+   */
+  app.delete('/mcp', async (req: Request, res: Response) => {
+    const session = findSession(req, res);
+    if (!session) return;
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (err: any) {
+      failed(res, err);
+    }
+  });
+
+  /**
+   * GET /sse - Legacy SSE transport: opens a session and sends the endpoint to POST messages to.
+   */
+  app.get('/sse', async (req: Request, res: Response) => {
+    let mcp: McpServerHandle | undefined;
+    try {
+      mcp = await openServer(req, res, 'sse');
+    } catch (err: any) {
+      failed(res, err);
+      return;
+    }
+    if (!mcp) return;
+    const transport = new SSEServerTransport('/messages', res);
+    const id = transport.sessionId;
+    sseSessions.set(id, { transport, mcp, owner: requestOwner(res), lastSeen: Date.now(), openStreams: 1 });
+    mcp.server.onclose = () => {
+      if (sseSessions.delete(id)) {
+        logger.info(`[MCP] SSE session ${id} closed`);
+      }
+    };
+    try {
+      await mcp.server.connect(transport);
+      keepAlive(res);
+      logger.info(`[MCP] SSE session ${id} opened from ${req.ip} (${sseSessions.size} open)`);
+    } catch (err: any) {
+      sseSessions.delete(id);
+      failed(res, err);
+    }
+  });
+
+  /**
+   * POST /messages - JSON-RPC messages of a legacy SSE session; the response arrives on its stream.
+   */
+  app.post('/messages', async (req: Request, res: Response) => {
+    const session = sseSessions.get(String(req.query.sessionId ?? ''));
+    if (!session) {
+      rpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    if (!ownsSession(res, session)) return;
+    try {
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (err: any) {
+      failed(res, err);
+    }
+  });
+
+  // Close Streamable HTTP sessions the client abandoned without DELETE
+  const reaper = setInterval(() => {
+    const cutoff = Date.now() - sessionIdleMs;
+    for (const [id, session] of streamableSessions) {
+      if (session.openStreams === 0 && session.lastSeen < cutoff) {
+        logger.info(`[MCP] Closing idle session ${id}`);
+        session.transport.close().catch(err => logger.warn(`[MCP] Closing session ${id} failed: ${err.message}`));
+      }
+    }
+  }, Math.min(sessionIdleMs, 60 * 1000));
+  reaper.unref();
+
+  function allSessions(): Array<Session<StreamableHTTPServerTransport> | Session<SSEServerTransport>> {
+    return [...streamableSessions.values(), ...sseSessions.values()];
+  }
+
+  return {
+    notifyNoteChange(change: NoteChange): void {
+      for (const session of allSessions()) {
+        session.mcp.notifyNoteChange(change);
+      }
+    },
+    counts(): McpSessionCounts {
+      return { streamable: streamableSessions.size, sse: sseSessions.size };
+    },
+    async closeAll(): Promise<void> {
+      clearInterval(reaper);
+      await Promise.allSettled(allSessions().map(session => session.transport.close()));
+    }
+  };
+}
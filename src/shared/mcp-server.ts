@@ -0,0 +1,148 @@
+/**
+ * MCP server factory shared by the stdio server and every HTTP session
+ *
+ * Registers the tool, resource and prompt handlers on an SDK `Server`, so the
+ * stdio transport, Streamable HTTP and legacy SSE answer JSON-RPC the same
+ * way. Each server keeps its own resource subscriptions; notifyNoteChange
+ * tells its client which of them a tool call changed, whichever connection
+ * (or REST route) made the call, as long as it changed the server's vault.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema, ListToolsRequestSchema, ListResourcesRequestSchema, ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema, ListPromptsRequestSchema,
+  GetPromptRequestSchema, McpError, ErrorCode
+} from '@modelcontextprotocol/sdk/types.js';
+import { mcpToolsSchema } from './constants.js';
+import {
+  ToolContext, ToolInputError, ToolPermissionError, callTool, canCallTool, auditToolCall, isNotFoundError
+} from './tools.js';
+import { AuditCaller } from './audit.js';
+import {
+  NoteChange, resourceTemplates, listResources, readResource, affectedResourceUris
+} from './resources.js';
+import { promptDefinitions, getPrompt } from './prompts.js';
+
+/** MCP's "resource not found" error code */
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Capabilities advertised by every transport
+ */
+export const mcpServerCapabilities = {
+  tools: {},
+  resources: { subscribe: true, listChanged: true },
+  prompts: {}
+};
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+  [key: string]: unknown;
+}
+
+export interface McpServerHandle {
+  server: Server;
+  /** Send the client resource notifications for notes changed by a tool */
+  notifyNoteChange(change: NoteChange): void;
+}
+
+/**
+ * Create an MCP server answering tools, resources and prompts requests
+ * @param {McpServerInfo} info - Server name and version sent on initialize
+ * @param {() => ToolContext} getContext - Tool context at request time; set once storage is open
+ * @param {Omit<AuditCaller, 'client'>} caller - Transport and remote address recorded in the audit log
+ * @returns {McpServerHandle}
+ */
+export function createMcpServer(
+  info: McpServerInfo, getContext: () => ToolContext, caller: Omit<AuditCaller, 'client'>
+): McpServerHandle {
+  const server = new Server(info, { capabilities: mcpServerCapabilities });
+  const subscriptions = new Set<string>();
+
+  // Tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    // Only the tools the client's API key may call
+    const ctx = getContext();
+    return { tools: mcpToolsSchema.filter(tool => canCallTool(ctx, tool.name)) };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const ctx = getContext();
+    // The client named itself in initialize
+    const client = server.getClientVersion();
+    try {
+      return await auditToolCall(ctx, { ...caller, client }, name, args, () => callTool(ctx, name, args));
+    } catch (err: any) {
+      if (err instanceof ToolPermissionError) {
+        throw new McpError(ErrorCode.InvalidRequest, err.message);
+      }
+      throw err;
+    }
+  });
+
+  // Resource handlers
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return listResources(getContext().repo, request.params?.cursor);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      return await readResource(getContext().repo, uri);
+    } catch (err: any) {
+      if (isNotFoundError(err) || err.message.startsWith('Unknown resource')) {
+        throw new McpError(RESOURCE_NOT_FOUND, err.message, { uri });
+      }
+      throw err;
+    }
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Prompt handlers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: promptDefinitions };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    try {
+      return await getPrompt(getContext(), name, args);
+    } catch (err: any) {
+      if (err instanceof ToolInputError || isNotFoundError(err) || err.message.startsWith('Unknown prompt')) {
+        throw new McpError(ErrorCode.InvalidParams, err.message);
+      }
+      throw err;
+    }
+  });
+
+  function notifyNoteChange(change: NoteChange): void {
+    if (change.vault !== getContext().repo.vault) {
+      return;
+    }
+    const failed = (err: Error) => getContext().logger.warn(`Resource notification failed: ${err.message}`);
+    for (const uri of affectedResourceUris(change, subscriptions)) {
+      server.sendResourceUpdated({ uri }).catch(failed);
+    }
+    if (change.listChanged) {
+      server.sendResourceListChanged().catch(failed);
+    }
+  }
+
+  return { server, notifyNoteChange };
+}
@@ -0,0 +1,353 @@
+/**
+ * NoteRepository kept entirely in memory
+ *
+ * Useful for tests and throwaway sessions. Full-text search is plain keyword
+ * matching weighted like the SQLite bm25 columns (title 10, content 1, tags 2);
+ * FTS5 query syntax is not interpreted. Repositories returned by forVault
+ * share the store of the one they came from.
+ */
+
+import { NoteRow, NoteRevision, NoteUpdate, NewNote, NoteLink, LinkedNote } from './types.js';
+import { NoteRepository } from './repository.js';
+import { QueuedSync, DeadSync, isSameSyncEntry } from './sync-queue.js';
+import { Vault, VaultSummary, NewVault, DEFAULT_VAULT } from './vaults.js';
+import { parseTags } from './notes.js';
+import { NewLink, canonicalLink } from './links.js';
+import { GraphEdge, LinkDirection } from './graph.js';
+import { FullTextHit } from './fulltext.js';
+import { SearchFilters, parseSearchFilters, noteMatchesFilters } from './search-filters.js';
+import { sqliteTimestamp } from './utils.js';
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+/** Data of every vault, shared by the repositories of one store */
+interface MemoryStore {
+  vaults: Map<string, Vault>;
+  notes: Map<string, NoteRow>;
+  revisions: Map<string, NoteRevision[]>;
+  links: NoteLink[];
+  noteMemories: Map<string, string[]>;
+  queue: Map<string, { vault: string; entry: QueuedSync }>;
+  deadLetters: Array<{ vault: string; entry: DeadSync }>;
+}
+
+function emptyStore(): MemoryStore {
+  return {
+    vaults: new Map([[DEFAULT_VAULT, { id: DEFAULT_VAULT, name: 'Default vault', created_at: sqliteTimestamp() }]]),
+    notes: new Map(),
+    revisions: new Map(),
+    links: [],
+    noteMemories: new Map(),
+    queue: new Map(),
+    deadLetters: []
+  };
+}
+
+export class InMemoryNoteRepository implements NoteRepository {
+  constructor(readonly vault: string = DEFAULT_VAULT, private readonly store: MemoryStore = emptyStore()) {}
+
+  forVault(vault: string): InMemoryNoteRepository {
+    return new InMemoryNoteRepository(vault, this.store);
+  }
+
+  async listVaults(): Promise<VaultSummary[]> {
+    const active = this.allNotes().filter(note => !note.archived_at);
+    return [...this.store.vaults.values()]
+      .sort((a, b) => Number(a.id !== DEFAULT_VAULT) - Number(b.id !== DEFAULT_VAULT) || a.id.localeCompare(b.id))
+      .map(vault => ({ ...vault, notes: active.filter(note => note.vault_id === vault.id).length }));
+  }
+
+  async getVault(id: string): Promise<Vault | undefined> {
+    const vault = this.store.vaults.get(id);
+    return vault && { ...vault };
+  }
+
+  async createVault(vault: NewVault): Promise<Vault> {
+    if (this.store.vaults.has(vault.id)) {
+      throw new Error(`Vault already exists: ${vault.id}`);
+    }
+    const stored = { id: vault.id, name: vault.name || vault.id, created_at: sqliteTimestamp() };
+    this.store.vaults.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  /** Note of this vault by ID */
+  private findNote(id: string): NoteRow | undefined {
+    const note = this.store.notes.get(id);
+    return note?.vault_id === this.vault ? note : undefined;
+  }
+
+  /** Notes of every vault, in creation order */
+  private allNotes(): NoteRow[] {
+    return [...this.store.notes.values()];
+  }
+
+  /** Notes of this vault, in creation order */
+  private vaultNotes(): NoteRow[] {
+    return this.allNotes().filter(note => note.vault_id === this.vault);
+  }
+
+  private vaultLinks(): NoteLink[] {
+    return this.store.links.filter(link => link.vault_id === this.vault);
+  }
+
+  private requireNote(id: string): NoteRow {
+    const note = this.findNote(id);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+    return note;
+  }
+
+  private linksTouching(id: string): NoteLink[] {
+    return this.vaultLinks().filter(link => link.from_id === id || link.to_id === id);
+  }
+
+  async createNote(note: NewNote): Promise<NoteRow> {
+    const row: NoteRow = {
+      id: note.id,
+      vault_id: this.vault,
+      title: note.title,
+      content: note.content,
+      tags: note.tags ? JSON.stringify(note.tags) : null,
+      links: null,
+      created_at: sqliteTimestamp(),
+      updated_at: null,
+      archived_at: null
+    };
+    this.store.notes.set(row.id, row);
+    return { ...row };
+  }
+
+  async getNote(id: string): Promise<NoteRow | undefined> {
+    const note = this.findNote(id);
+    return note && { ...note };
+  }
+
+  async getNotes(ids: string[]): Promise<NoteRow[]> {
+    return [...new Set(ids)].flatMap(id => {
+      const note = this.findNote(id);
+      return note ? [{ ...note }] : [];
+    });
+  }
+
+  async listNotes(): Promise<NoteRow[]> {
+    // Insertion order is creation order
+    return this.vaultNotes().map(note => ({ ...note }));
+  }
+
+  async updateNote(id: string, changes: NoteUpdate): Promise<{ note: NoteRow; revision: number }> {
+    const current = this.requireNote(id);
+    const history = this.store.revisions.get(id) ?? [];
+    const revision = history.length + 1;
+    history.push({
+      revision,
+      title: current.title,
+      content: current.content,
+      tags: parseTags(current.tags),
+      created_at: current.updated_at || current.created_at
+    });
+    this.store.revisions.set(id, history);
+    current.title = changes.title ?? current.title;
+    current.content = changes.content ?? current.content;
+    current.tags = changes.tags ? JSON.stringify(changes.tags) : current.tags;
+    current.updated_at = sqliteTimestamp();
+    return { note: { ...current }, revision };
+  }
+
+  async archiveNote(id: string): Promise<boolean> {
+    const note = this.requireNote(id);
+    if (note.archived_at) {
+      return false;
+    }
+    note.archived_at = sqliteTimestamp();
+    return true;
+  }
+
+  async restoreNote(id: string): Promise<boolean> {
+    const note = this.requireNote(id);
+    if (!note.archived_at) {
+      return false;
+    }
+    note.archived_at = null;
+    return true;
+  }
+
+  async deleteNote(id: string): Promise<NoteRow> {
+    const note = this.requireNote(id);
+    this.store.links = this.store.links.filter(link => link.from_id !== id && link.to_id !== id);
+    this.store.revisions.delete(id);
+    this.store.notes.delete(id);
+    return note;
+  }
+
+  async getNoteHistory(id: string): Promise<NoteRevision[]> {
+    const current = this.findNote(id);
+    if (!current) {
+      return [];
+    }
+    const revisions = [...(this.store.revisions.get(id) ?? [])];
+    revisions.push({
+      revision: revisions.length + 1,
+      title: current.title,
+      content: current.content,
+      tags: parseTags(current.tags),
+      created_at: current.updated_at || current.created_at
+    });
+    return revisions;
+  }
+
+  async createLink(link: NewLink): Promise<{ link: NoteLink; created: boolean }> {
+    const { from, to, type, symmetric } = canonicalLink(link);
+    if (!this.findNote(from) || !this.findNote(to)) {
+      throw new Error('One or both notes not found');
+    }
+    const existing = this.vaultLinks().find(l => l.type === type && (
+      (l.from_id === from && l.to_id === to) || (symmetric && l.from_id === to && l.to_id === from)
+    ));
+    if (existing) {
+      return { link: { ...existing }, created: false };
+    }
+    const stored: NoteLink = {
+      from_id: from,
+      to_id: to,
+      type,
+      note: link.note ?? null,
+      weight: link.weight ?? null,
+      vault_id: this.vault,
+      created_at: sqliteTimestamp()
+    };
+    this.store.links.push(stored);
+    return { link: { ...stored }, created: true };
+  }
+
+  async getNoteLinks(id: string): Promise<{ outgoing: LinkedNote[]; incoming: LinkedNote[] }> {
+    const linked = (link: NoteLink, direction: LinkedNote['direction']): LinkedNote[] => {
+      const otherId = direction === 'outgoing' ? link.to_id : link.from_id;
+      const other = this.findNote(otherId);
+      return other ? [{ ...link, direction, other_id: otherId, other_title: other.title }] : [];
+    };
+    return {
+      outgoing: this.vaultLinks().filter(l => l.from_id === id).flatMap(l => linked(l, 'outgoing')),
+      incoming: this.vaultLinks().filter(l => l.to_id === id).flatMap(l => linked(l, 'incoming'))
+    };
+  }
+
+  async getEdgesTouching(ids: string[], direction: LinkDirection, types?: string[]): Promise<GraphEdge[]> {
+    const wanted = new Set(ids);
+    return this.vaultLinks().flatMap(link => {
+      const touches = (direction !== 'incoming' && wanted.has(link.from_id)) ||
+        (direction !== 'outgoing' && wanted.has(link.to_id));
+      const from = this.findNote(link.from_id);
+      const to = this.findNote(link.to_id);
+      if (!touches || (types?.length && !types.includes(link.type)) ||
+          !from || !to || from.archived_at || to.archived_at) {
+        return [];
+      }
+      return [{ from_id: from.id, from_title: from.title, to_id: to.id, to_title: to.title, type: link.type }];
+    });
+  }
+
+  async searchFullText(query: string, filters: SearchFilters = parseSearchFilters()): Promise<FullTextHit[]> {
+    const terms = new Set(words(query));
+    if (!terms.size) {
+      return [];
+    }
+    const count = (text: string) => words(text).filter(word => terms.has(word)).length;
+    const hits: FullTextHit[] = [];
+    for (const note of this.vaultNotes()) {
+      if (note.archived_at || !noteMatchesFilters(note, this.linksTouching(note.id), filters)) continue;
+      const tags = parseTags(note.tags);
+      const score = 10 * count(note.title) + count(note.content) + 2 * count(tags.join(' '));
+      if (!score || (filters.minScore !== undefined && score < filters.minScore)) continue;
+      hits.push({
+        id: note.id,
+        title: note.title,
+        content: note.content,
+        tags,
+        created_at: note.created_at,
+        score,
+        snippet: note.content.length > 120 ? `${note.content.slice(0, 120)}…` : note.content
+      });
+    }
+    return hits
+      .sort((a, b) => b.score - a.score)
+      .slice(filters.offset, filters.offset + filters.limit);
+  }
+
+  async filterNoteIds(ids: string[], filters: SearchFilters): Promise<Set<string>> {
+    return new Set(ids.filter(id => {
+      const note = this.findNote(id);
+      return note && !note.archived_at && noteMatchesFilters(note, this.linksTouching(id), filters);
+    }));
+  }
+
+  async recordNoteMemories(noteId: string, memoryIds: string[]): Promise<void> {
+    const recorded = this.store.noteMemories.get(noteId) ?? [];
+    this.store.noteMemories.set(noteId, [...new Set([...recorded, ...memoryIds])]);
+  }
+
+  async getNoteMemoryIds(noteId: string): Promise<string[]> {
+    return [...(this.store.noteMemories.get(noteId) ?? [])];
+  }
+
+  async getMemoryNoteIds(memoryIds: string[]): Promise<Map<string, string>> {
+    const wanted = new Set(memoryIds);
+    const owners = new Map<string, string>();
+    for (const [noteId, recorded] of this.store.noteMemories) {
+      for (const memoryId of recorded) {
+        if (wanted.has(memoryId)) owners.set(memoryId, noteId);
+      }
+    }
+    return owners;
+  }
+
+  async forgetNoteMemories(noteId: string): Promise<void> {
+    this.store.noteMemories.delete(noteId);
+  }
+
+  /** Queue entry of a note in this vault, if it is still `expected` when given */
+  private queued(noteId: string, expected?: QueuedSync): QueuedSync | undefined {
+    const queued = this.store.queue.get(noteId);
+    if (!queued || queued.vault !== this.vault) return undefined;
+    return !expected || isSameSyncEntry(queued.entry, expected) ? queued.entry : undefined;
+  }
+
+  async saveSyncItem(entry: QueuedSync, expected?: QueuedSync): Promise<void> {
+    if (expected && !this.queued(expected.item.id, expected)) return;
+    this.store.queue.set(entry.item.id, { vault: this.vault, entry: { ...entry, item: { ...entry.item } } });
+  }
+
+  async getSyncItem(noteId: string): Promise<QueuedSync | undefined> {
+    return this.queued(noteId);
+  }
+
+  async listSyncQueue(dueBy?: string): Promise<QueuedSync[]> {
+    return [...this.store.queue.values()]
+      .filter(({ vault }) => vault === this.vault)
+      .map(({ entry }) => entry)
+      .filter(entry => dueBy === undefined || entry.nextAttemptAt <= dueBy)
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt) || a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async removeSyncItem(noteId: string, expected?: QueuedSync): Promise<void> {
+    if (this.queued(noteId, expected)) {
+      this.store.queue.delete(noteId);
+    }
+  }
+
+  async deadLetterSyncItem(entry: QueuedSync, expected?: QueuedSync): Promise<void> {
+    const { nextAttemptAt, ...dead } = entry;
+    if (expected && !this.queued(expected.item.id, expected)) return;
+    this.store.queue.delete(entry.item.id);
+    this.store.deadLetters.unshift({ vault: this.vault, entry: { ...dead, failedAt: sqliteTimestamp() } });
+  }
+
+  async listDeadLetters(): Promise<DeadSync[]> {
+    return this.store.deadLetters.filter(({ vault }) => vault === this.vault).map(({ entry }) => entry);
+  }
+
+  async close(): Promise<void> {}
+}
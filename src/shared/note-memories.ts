@@ -0,0 +1,148 @@
+/**
+ * Mapping between notes and the Mem0 memories produced from them
+ *
+ * Mem0 may split one note into several memories and rewrites their text, so
+ * the memory IDs returned by `memory.add` are recorded in `note_memories`.
+ * Memories added before the table existed are found through their
+ * `metadata.noteId` instead (see noteIdOfMemory).
+ */
+
+import { NotesDatabase } from './types.js';
+import { parseTags } from './notes.js';
+import { normalizeSearchResults, noteIdOfMemory } from './utils.js';
+import type { NoteRepository } from './repository.js';
+import type { SemanticMemory } from './semantic-index.js';
+
+/** A Mem0 search result resolved to the note it belongs to */
+export interface MemoryHit {
+  /** Note ID */
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  /** Memory text as stored by Mem0 */
+  memory: string;
+  memory_id: string;
+  score: number;
+  via: 'mem0';
+}
+
+/**
+ * IDs of the memories created or updated by a `memory.add` call
+ * @param {any} result - Return value of MemoryClient.add or Memory.add
+ * @returns {string[]}
+ */
+export function memoryIdsFromAddResult(result: any): string[] {
+  return normalizeSearchResults(result)
+    .filter((m: any) => m?.id && (m.event ?? m.metadata?.event) !== 'DELETE')
+    .map((m: any) => String(m.id));
+}
+
+/**
+ * Record the memories produced for a note
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} noteId - Note ID
+ * @param {string[]} memoryIds - Mem0 memory IDs
+ * @returns {Promise<void>}
+ */
+export async function recordNoteMemories(db: NotesDatabase, noteId: string, memoryIds: string[]): Promise<void> {
+  for (const memoryId of memoryIds) {
+    await db.run('INSERT OR IGNORE INTO note_memories (note_id, memory_id) VALUES (?, ?)', noteId, memoryId);
+  }
+}
+
+/**
+ * Recorded memory IDs of a note
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} noteId - Note ID
+ * @returns {Promise<string[]>} Empty if none were recorded
+ */
+export async function getNoteMemoryIds(db: NotesDatabase, noteId: string): Promise<string[]> {
+  const rows = await db.all<Array<{ memory_id: string }>>(
+    'SELECT memory_id FROM note_memories WHERE note_id = ? ORDER BY created_at',
+    noteId
+  );
+  return rows.map(row => row.memory_id);
+}
+
+/**
+ * Owning note of each of the given memories, where recorded
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string[]} memoryIds - Mem0 memory IDs
+ * @returns {Promise<Map<string, string>>} Memory ID → note ID
+ */
+export async function getMemoryNoteIds(db: NotesDatabase, memoryIds: string[]): Promise<Map<string, string>> {
+  if (!memoryIds.length) {
+    return new Map();
+  }
+  const rows = await db.all<Array<{ note_id: string; memory_id: string }>>(
+    `SELECT note_id, memory_id FROM note_memories WHERE memory_id IN (${memoryIds.map(() => '?').join(',')})`,
+    ...memoryIds
+  );
+  return new Map(rows.map(row => [row.memory_id, row.note_id]));
+}
+
+/**
+ * Drop the mapping of a note once its memories have been deleted from Mem0
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} noteId - Note ID
+ * @returns {Promise<void>}
+ */
+export async function forgetNoteMemories(db: NotesDatabase, noteId: string): Promise<void> {
+  await db.run('DELETE FROM note_memories WHERE note_id = ?', noteId);
+}
+
+/**
+ * Resolve Mem0 search results to their notes: by the recorded mapping first,
+ * then by memory metadata. Memories of unknown or archived notes are dropped,
+ * and each note is reported once, at its best-ranked memory.
+ * @param {NoteRepository} repo - Note storage
+ * @param {SemanticMemory[]} memories - Mem0 results, best match first
+ * @returns {Promise<MemoryHit[]>}
+ */
+export async function resolveMemoryHits(repo: NoteRepository, memories: SemanticMemory[]): Promise<MemoryHit[]> {
+  if (!memories.length) {
+    return [];
+  }
+  const noteByMemory = await repo.getMemoryNoteIds(memories.map(m => m.id));
+  const noteIds = memories.map(m => noteByMemory.get(m.id) ?? noteIdOfMemory(m));
+
+  const wanted = [...new Set(noteIds.filter((id): id is string => !!id))];
+  const rows = (await repo.getNotes(wanted)).filter(row => !row.archived_at);
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+
+  const hits = new Map<string, MemoryHit>();
+  memories.forEach((m, i) => {
+    const row = rowsById.get(noteIds[i] ?? '');
+    if (!row || hits.has(row.id)) return;
+    hits.set(row.id, {
+      id: row.id,
+      title: row.title,
+      content: row.content,
+      tags: parseTags(row.tags),
+      memory: m.memory,
+      memory_id: m.id,
+      score: m.score ?? 0,
+      via: 'mem0'
+    });
+  });
+  return [...hits.values()];
+}
+
+/**
+ * Format resolved Mem0 hits for a text tool response
+ * @param {MemoryHit[]} hits - Output of resolveMemoryHits
+ * @returns {string}
+ */
+export function formatMemoryHits(hits: MemoryHit[]): string {
+  if (hits.length === 0) {
+    return 'No results found';
+  }
+  return hits.map(hit => [
+    `ID: ${hit.id}`,
+    `Title: ${hit.title}`,
+    hit.tags.length ? `Tags: ${hit.tags.join(', ')}` : '',
+    `Score: ${hit.score.toFixed(3)}`,
+    `Memory: ${hit.memory}`
+  ].filter(Boolean).join('\n')).join('\n\n');
+}
@@ -0,0 +1,240 @@
+/**
+ * Note operations on the SQLite store shared by both MCP servers
+ */
+
+import { withTransaction } from './database.js';
+import { NotesDatabase, NoteRow, NoteRevision, NoteUpdate, NewNote } from './types.js';
+import { diffLines } from './utils.js';
+
+/**
+ * Parse the JSON `tags` column of a note or revision row
+ * @param {string | null} tags - Raw column value
+ * @returns {string[]} Tag list
+ */
+export function parseTags(tags: string | null): string[] {
+  return tags ? JSON.parse(tags) : [];
+}
+
+/**
+ * Fetch a single note row by ID
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} id - Note ID
+ * @returns {Promise<NoteRow | undefined>} The row, if it exists
+ */
+export async function getNoteRow(db: NotesDatabase, vault: string, id: string): Promise<NoteRow | undefined> {
+  return db.get<NoteRow>('SELECT * FROM notes WHERE id = ? AND vault_id = ?', id, vault);
+}
+
+/**
+ * Fetch several note rows, archived ones included
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string[]} ids - Note IDs
+ * @returns {Promise<NoteRow[]>} Rows that exist, in no particular order
+ */
+export async function getNoteRows(db: NotesDatabase, vault: string, ids: string[]): Promise<NoteRow[]> {
+  if (!ids.length) {
+    return [];
+  }
+  return db.all<NoteRow[]>(
+    `SELECT * FROM notes WHERE vault_id = ? AND id IN (${ids.map(() => '?').join(',')})`,
+    vault, ...ids
+  );
+}
+
+/**
+ * Fetch every note row, archived ones included, oldest first
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @returns {Promise<NoteRow[]>}
+ */
+export async function listNoteRows(db: NotesDatabase, vault: string): Promise<NoteRow[]> {
+  return db.all<NoteRow[]>('SELECT * FROM notes WHERE vault_id = ? ORDER BY created_at, id', vault);
+}
+
+/**
+ * Insert a new note
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {NewNote} note - ID, title, content and optional tags
+ * @returns {Promise<NoteRow>} The stored row
+ */
+export async function createNote(db: NotesDatabase, vault: string, note: NewNote): Promise<NoteRow> {
+  await db.run(
+    `INSERT INTO notes (id,vault_id,title,content,tags) VALUES (?,?,?,?,?)`,
+    note.id, vault, note.title, note.content,
+    note.tags ? JSON.stringify(note.tags) : null
+  );
+  return (await getNoteRow(db, vault, note.id))!;
+}
+
+/**
+ * Update a note, saving its previous state as a new revision first
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} id - Note ID
+ * @param {NoteUpdate} changes - Fields to change; omitted fields are kept
+ * @returns {Promise<{ note: NoteRow, revision: number }>} Updated row and the revision number it superseded
+ */
+export async function updateNote(
+  db: NotesDatabase,
+  vault: string,
+  id: string,
+  changes: NoteUpdate
+): Promise<{ note: NoteRow; revision: number }> {
+  return withTransaction(db, async () => {
+    const current = await getNoteRow(db, vault, id);
+    if (!current) {
+      throw new Error('Note not found');
+    }
+    const { next } = (await db.get<{ next: number }>(
+      'SELECT COALESCE(MAX(revision), 0) + 1 AS next FROM note_revisions WHERE note_id = ?',
+      id
+    ))!;
+    await db.run(
+      `INSERT INTO note_revisions (note_id,revision,title,content,tags,created_at) VALUES (?,?,?,?,?,?)`,
+      id, next, current.title, current.content, current.tags,
+      current.updated_at || current.created_at
+    );
+    await db.run(
+      `UPDATE notes SET title=?, content=?, tags=?, updated_at=CURRENT_TIMESTAMP WHERE id=?`,
+      changes.title ?? current.title,
+      changes.content ?? current.content,
+      changes.tags ? JSON.stringify(changes.tags) : current.tags,
+      id
+    );
+    return { note: (await getNoteRow(db, vault, id))!, revision: next };
+  });
+}
+
+/**
+ * Soft-delete a note: it stays in SQLite but is hidden from search
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} id - Note ID
+ * @returns {Promise<boolean>} False if the note was already archived
+ */
+export async function archiveNote(db: NotesDatabase, vault: string, id: string): Promise<boolean> {
+  const row = await getNoteRow(db, vault, id);
+  if (!row) {
+    throw new Error('Note not found');
+  }
+  if (row.archived_at) {
+    return false;
+  }
+  await db.run('UPDATE notes SET archived_at=CURRENT_TIMESTAMP WHERE id=?', id);
+  return true;
+}
+
+/**
+ * Undo a soft delete
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} id - Note ID
+ * @returns {Promise<boolean>} False if the note was not archived
+ */
+export async function restoreNote(db: NotesDatabase, vault: string, id: string): Promise<boolean> {
+  const row = await getNoteRow(db, vault, id);
+  if (!row) {
+    throw new Error('Note not found');
+  }
+  if (!row.archived_at) {
+    return false;
+  }
+  await db.run('UPDATE notes SET archived_at=NULL WHERE id=?', id);
+  return true;
+}
+
+/**
+ * Permanently delete a note, its revisions, and every link to or from it
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} id - Note ID
+ * @returns {Promise<NoteRow>} The deleted row
+ */
+export async function deleteNote(db: NotesDatabase, vault: string, id: string): Promise<NoteRow> {
+  return withTransaction(db, async () => {
+    const row = await getNoteRow(db, vault, id);
+    if (!row) {
+      throw new Error('Note not found');
+    }
+    await db.run('DELETE FROM links WHERE from_id=? OR to_id=?', id, id);
+    await db.run('DELETE FROM note_revisions WHERE note_id=?', id);
+    await db.run('DELETE FROM notes WHERE id=?', id);
+    return row;
+  });
+}
+
+/**
+ * List every revision of a note, oldest first. The current state of the
+ * note is included as the last entry so it can be diffed like the others.
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} id - Note ID
+ * @returns {Promise<NoteRevision[]>} Revisions, or an empty list if the note does not exist
+ */
+export async function getNoteHistory(db: NotesDatabase, vault: string, id: string): Promise<NoteRevision[]> {
+  const current = await getNoteRow(db, vault, id);
+  if (!current) {
+    return [];
+  }
+  const rows = await db.all<Array<Omit<NoteRevision, 'tags'> & { tags: string | null }>>(
+    'SELECT revision, title, content, tags, created_at FROM note_revisions WHERE note_id = ? ORDER BY revision',
+    id
+  );
+  const revisions = rows.map(row => ({ ...row, tags: parseTags(row.tags) }));
+  revisions.push({
+    revision: revisions.length + 1,
+    title: current.title,
+    content: current.content,
+    tags: parseTags(current.tags),
+    created_at: current.updated_at || current.created_at
+  });
+  return revisions;
+}
+
+/**
+ * Render a line diff between two revisions of a note
+ * @param {NoteRevision} from - Older revision
+ * @param {NoteRevision} to - Newer revision
+ * @returns {string} Diff of title, tags and content
+ */
+export function diffRevisions(from: NoteRevision, to: NoteRevision): string {
+  const sections = [`--- revision ${from.revision}`, `+++ revision ${to.revision}`];
+  if (from.title !== to.title) {
+    sections.push(`- title: ${from.title}`, `+ title: ${to.title}`);
+  }
+  const fromTags = from.tags.join(', ');
+  const toTags = to.tags.join(', ');
+  if (fromTags !== toTags) {
+    sections.push(`- tags: ${fromTags}`, `+ tags: ${toTags}`);
+  }
+  sections.push(diffLines(from.content || '', to.content || ''));
+  return sections.join('\n');
+}
+
+/**
+ * Format a note's history for a text tool response
+ * @param {NoteRevision[]} revisions - Output of getNoteHistory
+ * @param {number} [fromRevision] - Older side of the diff (defaults to the previous revision)
+ * @param {number} [toRevision] - Newer side of the diff (defaults to the current revision)
+ * @returns {string} Revision list followed by the requested diff
+ */
+export function formatNoteHistory(revisions: NoteRevision[], fromRevision?: number, toRevision?: number): string {
+  const list = revisions
+    .map(r => `Revision ${r.revision} (${r.created_at}): ${r.title}`)
+    .join('\n');
+  const to = revisions.find(r => r.revision === (toRevision ?? revisions.length));
+  const from = revisions.find(r => r.revision === (fromRevision ?? (to ? to.revision - 1 : 0)));
+  if (fromRevision !== undefined && !from) {
+    throw new Error(`Revision ${fromRevision} not found`);
+  }
+  if (toRevision !== undefined && !to) {
+    throw new Error(`Revision ${toRevision} not found`);
+  }
+  if (!from || !to) {
+    return `Revisions:\n${list}`;
+  }
+  return `Revisions:\n${list}\n\nDiff:\n${diffRevisions(from, to)}`;
+}
@@ -0,0 +1,389 @@
+/**
+ * JSON Schemas of the structured results of each MCP tool
+ *
+ * A tool's structured result is the same object its REST route answers with
+ * (the `data` returned by executeTool), sent as `structuredContent` next to
+ * the text rendering. Fields are only marked required when every code path
+ * sets them, and extra fields are allowed so results can grow.
+ */
+
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+/** Where a result was read from: 'mem0' (the semantic index), 'sqlite' or 'hybrid' */
+const via = { type: 'string', description: 'Source of the result: mem0 (semantic index), sqlite or hybrid' };
+/** Where a written note went: writes return once SQLite has it, before the index does */
+const writeVia = { type: 'string', description: 'Always sqlite: the note is saved there and indexed in the background' };
+
+const linkProperties = {
+  from_id: { type: 'string' },
+  to_id: { type: 'string' },
+  type: { type: 'string', description: 'Link type' },
+  note: nullableString,
+  weight: nullableNumber,
+  created_at: { type: 'string' }
+};
+
+const linkSchema = {
+  type: 'object',
+  properties: linkProperties,
+  required: ['from_id', 'to_id', 'type']
+};
+
+/** A link seen from one of its notes */
+const linkedNoteSchema = {
+  type: 'object',
+  properties: {
+    ...linkProperties,
+    direction: { type: 'string', enum: ['outgoing', 'incoming'] },
+    other_id: { type: 'string', description: 'Note on the other end' },
+    other_title: { type: 'string' }
+  },
+  required: ['from_id', 'to_id', 'type', 'direction', 'other_id', 'other_title']
+};
+
+const noteLinksSchema = {
+  type: 'object',
+  properties: {
+    outgoing: { type: 'array', items: linkedNoteSchema },
+    incoming: { type: 'array', items: linkedNoteSchema }
+  },
+  required: ['outgoing', 'incoming']
+};
+
+/** Search hit of any mode; which score fields are set depends on the mode */
+const searchHitSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Note ID' },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    tags: stringArray,
+    created_at: { type: 'string' },
+    score: { type: 'number', description: 'Mem0 similarity (semantic) or bm25 relevance (fulltext), higher is better' },
+    memory: { type: 'string', description: 'Matching memory text (semantic)' },
+    memory_id: { type: 'string' },
+    snippet: { type: 'string', description: 'Matching excerpt with hits wrapped in ** (fulltext)' },
+    match: { type: 'string', description: 'Snippet or memory text (hybrid)' },
+    scores: {
+      type: 'object',
+      properties: { rrf: { type: 'number' }, mem0: { type: 'number' }, fts: { type: 'number' } },
+      description: 'Reciprocal rank fusion score and the score in each source (hybrid)'
+    },
+    ranks: {
+      type: 'object',
+      properties: { mem0: { type: 'number' }, fts: { type: 'number' } },
+      description: '1-based rank in each source (hybrid)'
+    },
+    via
+  },
+  required: ['id', 'title', 'content', 'tags']
+};
+
+const revisionSchema = {
+  type: 'object',
+  properties: {
+    revision: { type: 'number' },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    tags: stringArray,
+    created_at: { type: 'string' }
+  },
+  required: ['revision', 'title', 'content', 'tags', 'created_at']
+};
+
+const graphNodeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    depth: { type: 'number', description: 'Hops from the root note' }
+  },
+  required: ['id', 'title', 'depth']
+};
+
+const syncItemSchema = {
+  type: 'object',
+  properties: {
+    op: { type: 'string', enum: ['create', 'update', 'delete', 'link'] },
+    id: { type: 'string', description: 'Note ID (the source note for links)' },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    to: { type: 'string' },
+    type: { type: 'string' }
+  },
+  required: ['op', 'id']
+};
+
+const syncEntryProperties = {
+  item: syncItemSchema,
+  attempts: { type: 'number' },
+  lastError: nullableString,
+  createdAt: { type: 'string' }
+};
+
+export const noteCreatedOutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'ID of the new note' },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    tags: stringArray,
+    created_at: { type: 'string' },
+    via: writeVia
+  },
+  required: ['id', 'title', 'tags']
+};
+
+export const noteOutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string', description: 'Absent when the note is returned as remembered by Mem0 (source=semantic)' },
+    content: { type: 'string' },
+    tags: stringArray,
+    links: noteLinksSchema,
+    created_at: { type: 'string' },
+    updated_at: nullableString,
+    archived_at: nullableString,
+    via,
+    semantic: {
+      type: ['object', 'null'],
+      description: 'With source=both: the note\'s memories and related notes, or null if Mem0 was unavailable',
+      properties: {
+        memories: stringArray,
+        related: { type: 'array', items: searchHitSchema }
+      }
+    }
+  },
+  required: ['id', 'content', 'links', 'via']
+};
+
+export const searchOutputSchema = {
+  type: 'object',
+  properties: {
+    results: { type: 'array', items: searchHitSchema, description: 'Best match first' },
+    via,
+    sources: {
+      type: 'array',
+      items: { type: 'string', enum: ['mem0', 'fts'] },
+      description: 'Hybrid mode: the sources that answered; one only if the other failed, and via then names it'
+    }
+  },
+  required: ['results', 'via']
+};
+
+export const linkOutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    created: { type: 'boolean', description: 'False if the link already existed' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    type: { type: 'string', description: 'Canonical link type' },
+    link: linkSchema
+  },
+  required: ['created', 'from', 'to', 'type']
+};
+
+export const noteUpdatedOutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    tags: stringArray,
+    updated_at: nullableString,
+    revision: { type: 'number', description: 'Revision holding the previous version' },
+    via: writeVia
+  },
+  required: ['id', 'title', 'content', 'tags', 'revision']
+};
+
+export const noteHistoryOutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    revisions: { type: 'array', items: revisionSchema },
+    diff: { ...nullableString, description: 'Diff between the requested revisions, null if one does not exist' }
+  },
+  required: ['id', 'revisions', 'diff']
+};
+
+export const noteChangedOutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    mode: { type: 'string', enum: ['archive', 'hard'] },
+    changed: { type: 'boolean', description: 'False if the note was already in the requested state' }
+  },
+  required: ['id', 'changed']
+};
+
+export const subgraphOutputSchema = {
+  type: 'object',
+  properties: {
+    root: graphNodeSchema,
+    nodes: { type: 'array', items: graphNodeSchema },
+    edges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from_id: { type: 'string' },
+          from_title: { type: 'string' },
+          to_id: { type: 'string' },
+          to_title: { type: 'string' },
+          type: { type: 'string' }
+        },
+        required: ['from_id', 'to_id', 'type']
+      }
+    }
+  },
+  required: ['root', 'nodes', 'edges']
+};
+
+export const pathsOutputSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string' },
+    to: { type: 'string' },
+    paths: {
+      type: 'array',
+      description: 'Shortest first; empty if the notes are not connected',
+      items: {
+        type: 'object',
+        properties: {
+          nodes: {
+            type: 'array',
+            items: { type: 'object', properties: { id: { type: 'string' }, title: { type: 'string' } }, required: ['id', 'title'] }
+          },
+          hops: {
+            type: 'array',
+            description: 'hops[i] connects nodes[i] and nodes[i + 1]',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string' },
+                forward: { type: 'boolean', description: 'False when the link was walked against its direction' }
+              },
+              required: ['type', 'forward']
+            }
+          }
+        },
+        required: ['nodes', 'hops']
+      }
+    }
+  },
+  required: ['from', 'to', 'paths']
+};
+
+export const reindexOutputSchema = {
+  type: 'object',
+  properties: {
+    scope: { type: 'string', enum: ['missing', 'all'] },
+    dryRun: { type: 'boolean' },
+    selected: { type: 'number' },
+    missing: { ...stringArray, description: 'Selected notes with no memory in the index' },
+    orphans: { ...stringArray, description: 'Memory IDs with no matching note' },
+    pushed: { type: 'number' },
+    failed: { type: 'number', description: 'Notes queued for retry' },
+    purged: { type: 'number' }
+  },
+  required: ['scope', 'dryRun', 'selected', 'missing', 'orphans', 'pushed', 'failed', 'purged']
+};
+
+export const syncStatusOutputSchema = {
+  type: 'object',
+  properties: {
+    pendingCount: { type: 'number' },
+    deadCount: { type: 'number' },
+    pending: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...syncEntryProperties, nextAttemptAt: { type: 'string' } },
+        required: ['item', 'attempts', 'nextAttemptAt']
+      }
+    },
+    dead: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...syncEntryProperties, failedAt: { type: 'string' } },
+        required: ['item', 'attempts', 'failedAt']
+      }
+    }
+  },
+  required: ['pendingCount', 'deadCount', 'pending', 'dead']
+};
+
+const vaultProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  created_at: { type: 'string' }
+};
+
+export const vaultOutputSchema = {
+  type: 'object',
+  properties: vaultProperties,
+  required: ['id', 'name']
+};
+
+export const vaultsOutputSchema = {
+  type: 'object',
+  properties: {
+    current: { type: 'string', description: 'Vault the call ran in' },
+    vaults: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...vaultProperties, notes: { type: 'number', description: 'Active notes' } },
+        required: ['id', 'name', 'notes']
+      }
+    }
+  },
+  required: ['current', 'vaults']
+};
+
+export const auditOutputSchema = {
+  type: 'object',
+  properties: {
+    entries: {
+      type: 'array',
+      description: 'Newest first',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          created_at: { type: 'string' },
+          transport: { type: 'string', enum: ['stdio', 'http', 'sse', 'rest'] },
+          client_name: nullableString,
+          client_version: nullableString,
+          remote_address: nullableString,
+          api_key_id: nullableString,
+          vault_id: nullableString,
+          tool: { type: 'string' },
+          arguments: { type: ['object', 'null'], description: 'Arguments after redaction' },
+          status: { type: 'string', enum: ['ok', 'error', 'denied'] },
+          error: nullableString,
+          duration_ms: { type: 'number' }
+        },
+        required: ['id', 'created_at', 'transport', 'tool', 'status', 'duration_ms']
+      }
+    },
+    next_cursor: { ...nullableString, description: 'Pass as cursor for the next page; null on the last page' }
+  },
+  required: ['entries', 'next_cursor']
+};
+
+export const methodologyOutputSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    version: { type: 'string' },
+    description: { type: 'string' }
+  },
+  required: ['name']
+};
@@ -0,0 +1,246 @@
+/**
+ * MCP prompts for the Zettelkasten workflow steps
+ *
+ * Each prompt is filled with live data from the vault (search results, the
+ * note under review, the link type vocabulary) so a client can run a step of
+ * the methodology without pasting the system prompt from the README.
+ */
+
+import { ToolContext, ToolInputError } from './tools.js';
+import { listLinkTypes, describeLinkType } from './link-types.js';
+import { parseSearchFilters, MAX_SEARCH_LIMIT } from './search-filters.js';
+import { hybridSearch, HybridHit } from './hybrid.js';
+import { noteUri, readResource } from './resources.js';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+type PromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+
+/** MCP `prompts/get` result */
+export interface PromptResult {
+  [key: string]: unknown;
+  description: string;
+  messages: Array<{ role: 'user'; content: PromptContent }>;
+}
+
+/** Related notes listed by the capture and review prompts */
+const RELATED_LIMIT = 8;
+export const DEFAULT_SUMMARY_LIMIT = 10;
+/** Longest query sent to search; conversation excerpts can be long */
+const MAX_QUERY_LENGTH = 500;
+
+export const promptDefinitions: PromptDefinition[] = [
+  {
+    name: 'zk_capture_insight',
+    description: 'Capture an insight from this conversation as atomic notes: checks what the vault already holds, then creates or refines notes and links them',
+    arguments: [
+      { name: 'insight', description: 'The insight, or the part of the conversation it came from', required: true },
+      { name: 'tags', description: 'Comma-separated tags to suggest for the new notes', required: false }
+    ]
+  },
+  {
+    name: 'zk_review_and_link',
+    description: 'Review a new note for atomicity, title and tags, and connect it to related notes with typed links',
+    arguments: [
+      { name: 'id', description: 'ID of the note to review', required: true }
+    ]
+  },
+  {
+    name: 'zk_summarize_topic',
+    description: 'Summarize what the vault knows about a topic, citing notes and pointing out contradictions and gaps',
+    arguments: [
+      { name: 'topic', description: 'Topic or question', required: true },
+      { name: 'limit', description: `Number of notes to read (default ${DEFAULT_SUMMARY_LIMIT}, max ${MAX_SEARCH_LIMIT})`, required: false }
+    ]
+  }
+];
+
+function requireArg(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new ToolInputError(`Missing argument: ${name}`);
+  }
+  return value;
+}
+
+function excerpt(text: string, length = 200): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 3)}...` : flat;
+}
+
+/** Hybrid search that degrades to an empty list, noting why, instead of failing the prompt */
+async function searchVault(ctx: ToolContext, query: string, limit: number): Promise<{ hits: HybridHit[]; error?: string }> {
+  try {
+    const { hits } = await hybridSearch(
+      ctx.repo, ctx.index, query.slice(0, MAX_QUERY_LENGTH), parseSearchFilters({ limit }), ctx.logger
+    );
+    return { hits };
+  } catch (err: any) {
+    ctx.logger.warn(`Prompt search failed: ${err.message}`);
+    return { hits: [], error: err.message };
+  }
+}
+
+function formatRelated(hits: HybridHit[], error?: string): string {
+  if (error) {
+    return `Search is unavailable (${error}); run zk_search_notes yourself before creating anything.`;
+  }
+  if (!hits.length) {
+    return 'None found.';
+  }
+  return hits.map(hit => [
+    `- [${hit.title}](${noteUri(hit.id)}) - ID: ${hit.id}${hit.tags.length ? `, tags: ${hit.tags.join(', ')}` : ''}`,
+    `  > ${excerpt(hit.content)}`
+  ].join('\n')).join('\n');
+}
+
+function formatLinkTypes(): string {
+  return listLinkTypes().map(type => `- ${describeLinkType(type)}`).join('\n');
+}
+
+function textMessage(text: string): PromptResult['messages'][number] {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+async function captureInsight(ctx: ToolContext, args: Record<string, string>): Promise<PromptResult> {
+  const insight = requireArg(args, 'insight');
+  const tags = (args.tags ?? '').split(',').map(tag => tag.trim()).filter(Boolean);
+  const { hits, error } = await searchVault(ctx, insight, RELATED_LIMIT);
+  const text = [
+    'Capture the following insight in the Zettelkasten.',
+    '',
+    '## Insight',
+    '',
+    insight,
+    '',
+    '## Related notes already in the vault',
+    '',
+    formatRelated(hits, error),
+    '',
+    '## Link types',
+    '',
+    formatLinkTypes(),
+    '',
+    '## Steps',
+    '',
+    '1. Compare the insight with the related notes. If a note already states an idea, refine it with zk_update_note instead of creating a near-duplicate.',
+    `2. Split the rest into atomic ideas and create one note per idea with zk_create_note: a descriptive title, concise but complete content${tags.length ? `, and tags such as ${tags.join(', ')}` : ', and consistent tags'}.`,
+    '3. Link every new or refined note to the related notes with zk_create_link, using the most specific link type above and explaining the connection in `note`.',
+    '4. Reply with the IDs of the notes created, updated and linked.'
+  ].join('\n');
+  return { description: 'Capture an insight as atomic, linked notes', messages: [textMessage(text)] };
+}
+
+async function reviewAndLink(ctx: ToolContext, args: Record<string, string>): Promise<PromptResult> {
+  const id = requireArg(args, 'id');
+  const note = await ctx.repo.getNote(id);
+  if (!note) {
+    throw new Error('Note not found');
+  }
+  const { outgoing, incoming } = await ctx.repo.getNoteLinks(id);
+  const linked = new Set([id, ...outgoing.map(link => link.other_id), ...incoming.map(link => link.other_id)]);
+  // Over-fetch: the note itself and its current links are left out
+  const { hits, error } = await searchVault(ctx, `${note.title}\n${note.content}`, RELATED_LIMIT + linked.size);
+  const candidates = hits.filter(hit => !linked.has(hit.id)).slice(0, RELATED_LIMIT);
+  const { contents: [resource] } = await readResource(ctx.repo, noteUri(id));
+  const text = [
+    `Review the note "${note.title}" (ID: ${id}) shown above and connect it to the vault.`,
+    '',
+    '## Candidate notes to link (not linked yet)',
+    '',
+    formatRelated(candidates, error),
+    '',
+    '## Link types',
+    '',
+    formatLinkTypes(),
+    '',
+    '## Steps',
+    '',
+    '1. Check that the note holds one idea, that its title states that idea, and that its tags match the tags used by the candidates. Fix what is off with zk_update_note; if it holds several ideas, split it into new notes with zk_create_note.',
+    '2. For each candidate that is really related, create a link with zk_create_link, choosing the link type that describes the relationship best and explaining it in `note`. Skip candidates that only share words.',
+    '3. Reply with the changes made and the links created, by note ID.'
+  ].join('\n');
+  return {
+    description: `Review and link "${note.title}"`,
+    messages: [{ role: 'user', content: { type: 'resource', resource } }, textMessage(text)]
+  };
+}
+
+async function summarizeTopic(ctx: ToolContext, args: Record<string, string>): Promise<PromptResult> {
+  const topic = requireArg(args, 'topic');
+  const limit = args.limit === undefined || args.limit === '' ? DEFAULT_SUMMARY_LIMIT : Number(args.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ToolInputError('Invalid limit: must be a positive integer');
+  }
+  const { hits, error } = await searchVault(ctx, topic, Math.min(limit, MAX_SEARCH_LIMIT));
+
+  // Links among the notes found, so the summary can follow the argument
+  const found = new Set(hits.map(hit => hit.id));
+  const links: string[] = [];
+  for (const hit of hits) {
+    for (const link of (await ctx.repo.getNoteLinks(hit.id)).outgoing) {
+      if (found.has(link.other_id)) {
+        links.push(`- ${hit.title} ${link.type} ${link.other_title}${link.note ? ` (${link.note})` : ''}`);
+      }
+    }
+  }
+
+  const notes = hits.map(hit => [
+    `### [${hit.title}](${noteUri(hit.id)})`,
+    `ID: ${hit.id}${hit.tags.length ? `, tags: ${hit.tags.join(', ')}` : ''}`,
+    '',
+    hit.content
+  ].join('\n'));
+  const text = [
+    `Summarize what the vault knows about: ${topic}`,
+    '',
+    '## Notes found',
+    '',
+    error
+      ? `Search is unavailable (${error}); use zk_search_notes to find the notes first.`
+      : notes.length ? notes.join('\n\n') : 'No notes found on this topic.',
+    ...(links.length ? ['', '## Links between these notes', '', ...links] : []),
+    '',
+    '## Steps',
+    '',
+    '1. Write a structured summary based only on the notes above, citing each claim with the note title and ID.',
+    '2. Point out where notes contradict or refine each other, following the links between them.',
+    '3. List open questions and gaps the vault does not cover yet, and suggest atomic notes that would fill them.',
+    '4. Do not create notes unless asked; use zk_get_note or zk_get_neighbors if a note needs more context.'
+  ].join('\n');
+  return { description: `What the vault knows about "${topic}"`, messages: [textMessage(text)] };
+}
+
+/**
+ * Fill a prompt with live vault data
+ * @param {ToolContext} ctx - Storage, semantic index and logger
+ * @param {string} name - Prompt name from promptDefinitions
+ * @param {Record<string, string>} [args] - Prompt arguments
+ * @returns {Promise<PromptResult>}
+ * @throws {ToolInputError} If a required argument is missing or invalid
+ * @throws {Error} 'Note not found', or `Unknown prompt: name`
+ */
+export async function getPrompt(ctx: ToolContext, name: string, args: Record<string, string> = {}): Promise<PromptResult> {
+  switch (name) {
+    case 'zk_capture_insight':
+      return captureInsight(ctx, args);
+    case 'zk_review_and_link':
+      return reviewAndLink(ctx, args);
+    case 'zk_summarize_topic':
+      return summarizeTopic(ctx, args);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
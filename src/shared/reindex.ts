@@ -0,0 +1,186 @@
+/**
+ * Rebuild the semantic index from the notes table
+ *
+ * Used by the `reindex` CLI command and the zk_reindex admin tool when the
+ * index was wiped, the Mem0 user ID changed or queued syncs were lost. Notes
+ * are pushed in batches; a failed push is queued for retry like any other sync.
+ */
+
+import { NoteRow } from './types.js';
+import { NoteRepository } from './repository.js';
+import { SemanticIndex } from './semantic-index.js';
+import { SemanticSync } from './sync.js';
+import { SearchFilters, parseSearchFilters, hasNoteFilters } from './search-filters.js';
+
+/** missing: only notes with no memory in the index; all: re-push every selected note */
+export type ReindexScope = 'missing' | 'all';
+
+export const DEFAULT_REINDEX_BATCH_SIZE = 20;
+export const MAX_REINDEX_BATCH_SIZE = 200;
+
+export interface ReindexProgress {
+  processed: number;
+  total: number;
+  pushed: number;
+  failed: number;
+}
+
+export interface ReindexOptions {
+  scope: ReindexScope;
+  /** Only these notes */
+  ids?: string[];
+  /** Only notes passing these filters; archived notes are then skipped, as in search */
+  filters?: SearchFilters;
+  /** Notes pushed concurrently */
+  batchSize: number;
+  /** Delete memories that belong to no existing note */
+  purgeOrphans: boolean;
+  /** Report what would be done without changing the index */
+  dryRun: boolean;
+  /** Called after every batch */
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+export interface ReindexReport {
+  scope: ReindexScope;
+  dryRun: boolean;
+  /** Notes selected by `ids` and `filters` */
+  selected: number;
+  /** Selected notes with no memory in the index */
+  missing: string[];
+  /** Memories with no matching note, across the whole index */
+  orphans: string[];
+  pushed: number;
+  /** Notes that could not be pushed and were queued for retry */
+  failed: number;
+  purged: number;
+}
+
+/**
+ * Read reindex options from tool arguments or CLI flags (snake_case keys)
+ * @param {Record<string, any>} args - Raw arguments
+ * @returns {ReindexOptions} Validated options with defaults applied
+ * @throws {Error} If an option has the wrong type
+ */
+export function parseReindexOptions(args: Record<string, any> = {}): ReindexOptions {
+  const { scope = 'missing', ids, batch_size: batchSize = DEFAULT_REINDEX_BATCH_SIZE } = args;
+  if (scope !== 'missing' && scope !== 'all') {
+    throw new Error('Invalid scope: must be "missing" or "all"');
+  }
+  if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+    throw new Error('Invalid ids: must be an array of note IDs');
+  }
+  if (typeof batchSize !== 'number' || !Number.isFinite(batchSize)) {
+    throw new Error('Invalid batch_size: must be a number');
+  }
+  for (const flag of ['purge_orphans', 'dry_run']) {
+    if (args[flag] !== undefined && typeof args[flag] !== 'boolean') {
+      throw new Error(`Invalid ${flag}: must be a boolean`);
+    }
+  }
+  const filters = parseSearchFilters(args);
+  return {
+    scope,
+    ids: ids?.length ? ids : undefined,
+    filters: hasNoteFilters(filters) ? filters : undefined,
+    batchSize: Math.min(Math.max(Math.floor(batchSize), 1), MAX_REINDEX_BATCH_SIZE),
+    purgeOrphans: args.purge_orphans === true,
+    dryRun: args.dry_run === true
+  };
+}
+
+/**
+ * Compare the index with the notes table, purge orphans if asked and push the
+ * selected notes. Notes that already have memories are replaced, not duplicated.
+ * @param {NoteRepository} repo - Note storage
+ * @param {SemanticIndex} index - Index to rebuild
+ * @param {SemanticSync} sync - Sync helpers for the same repository and index
+ * @param {ReindexOptions} options - Selection, batching and purge options
+ * @returns {Promise<ReindexReport>}
+ */
+export async function reindexNotes(
+  repo: NoteRepository,
+  index: SemanticIndex,
+  sync: SemanticSync,
+  options: ReindexOptions
+): Promise<ReindexReport> {
+  const audit = await sync.audit();
+  let selected = audit.notes;
+  if (options.ids) {
+    const wanted = new Set(options.ids);
+    selected = selected.filter(note => wanted.has(note.id));
+  }
+  if (options.filters) {
+    const kept = await repo.filterNoteIds(selected.map(note => note.id), options.filters);
+    selected = selected.filter(note => kept.has(note.id));
+  }
+  const missing = selected.filter(note => !audit.indexed.has(note.id));
+  const report: ReindexReport = {
+    scope: options.scope,
+    dryRun: options.dryRun,
+    selected: selected.length,
+    missing: missing.map(note => note.id),
+    orphans: audit.orphans.map(memory => memory.id),
+    pushed: 0,
+    failed: 0,
+    purged: 0
+  };
+  if (options.dryRun) {
+    return report;
+  }
+
+  if (options.purgeOrphans) {
+    for (const memoryId of report.orphans) {
+      await index.delete(memoryId);
+      report.purged++;
+    }
+  }
+
+  // Record exactly the memories found in the index, so stale mappings are
+  // dropped and replaceNote deletes what is really there
+  const push = async (note: NoteRow): Promise<boolean> => {
+    const present = audit.indexed.get(note.id);
+    await repo.forgetNoteMemories(note.id);
+    if (!present) {
+      return sync.syncNote(note);
+    }
+    await repo.recordNoteMemories(note.id, present);
+    return sync.replaceNote(note);
+  };
+
+  const queue = options.scope === 'all' ? selected : missing;
+  for (let start = 0; start < queue.length; start += options.batchSize) {
+    const results = await Promise.all(queue.slice(start, start + options.batchSize).map(push));
+    report.pushed += results.filter(Boolean).length;
+    report.failed += results.filter(ok => !ok).length;
+    options.onProgress?.({
+      processed: Math.min(start + options.batchSize, queue.length),
+      total: queue.length,
+      pushed: report.pushed,
+      failed: report.failed
+    });
+  }
+  return report;
+}
+
+/**
+ * Human-readable summary of a reindex run
+ * @param {ReindexReport} report - Result of reindexNotes
+ * @param {string} indexName - Index name, e.g. "Mem0"
+ * @returns {string}
+ */
+export function formatReindexReport(report: ReindexReport, indexName: string): string {
+  const lines = [
+    `${report.dryRun ? 'Reindex dry run' : 'Reindex'} (${report.scope}) against ${indexName}`,
+    `Selected notes: ${report.selected}`,
+    `Missing from ${indexName}: ${report.missing.length}${report.missing.length ? ` (${report.missing.join(', ')})` : ''}`,
+    `Orphaned memories: ${report.orphans.length}${report.orphans.length ? ` (${report.orphans.join(', ')})` : ''}`
+  ];
+  if (!report.dryRun) {
+    lines.push(`Pushed: ${report.pushed}, queued for retry: ${report.failed}`);
+    if (report.orphans.length) {
+      lines.push(report.purged ? `Purged orphans: ${report.purged}` : 'Orphans kept (purge_orphans not set)');
+    }
+  }
+  return lines.join('\n');
+}
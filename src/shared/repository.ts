@@ -0,0 +1,225 @@
+/**
+ * Storage backend interface shared by both MCP servers, and its SQLite implementation
+ *
+ * Everything the tool dispatcher needs from local storage goes through
+ * NoteRepository, so alternative stores (or InMemoryNoteRepository in tests)
+ * can be plugged in without touching the servers. A repository reads and
+ * writes one vault; forVault gives the same storage scoped to another.
+ */
+
+import { NotesDatabase, NoteRow, NoteRevision, NoteUpdate, NewNote, NoteLink, LinkedNote } from './types.js';
+import { migrate, openDatabase } from './database.js';
+import {
+  createNote, getNoteRow, getNoteRows, listNoteRows, updateNote, archiveNote, restoreNote, deleteNote, getNoteHistory
+} from './notes.js';
+import { NewLink, createLink, getNoteLinks } from './links.js';
+import { GraphEdge, LinkDirection, getEdgesTouching } from './graph.js';
+import { FullTextHit, searchFullText } from './fulltext.js';
+import { SearchFilters, filterNoteIds } from './search-filters.js';
+import { recordNoteMemories, getNoteMemoryIds, getMemoryNoteIds, forgetNoteMemories } from './note-memories.js';
+import { Vault, VaultSummary, NewVault, DEFAULT_VAULT, listVaults, getVault, createVault } from './vaults.js';
+import {
+  QueuedSync, DeadSync, saveSyncItem, getSyncItem, listSyncQueue, removeSyncItem, deadLetterSyncItem, listDeadLetters
+} from './sync-queue.js';
+
+export interface NoteRepository {
+  /** Vault whose notes this repository reads and writes */
+  readonly vault: string;
+  /** The same storage scoped to another vault; the vault need not exist yet */
+  forVault(vault: string): NoteRepository;
+  /** Every vault with its number of active notes */
+  listVaults(): Promise<VaultSummary[]>;
+  getVault(id: string): Promise<Vault | undefined>;
+  /** @throws {Error} `Vault already exists: id` */
+  createVault(vault: NewVault): Promise<Vault>;
+
+  createNote(note: NewNote): Promise<NoteRow>;
+  getNote(id: string): Promise<NoteRow | undefined>;
+  /** Rows that exist among `ids`, archived ones included */
+  getNotes(ids: string[]): Promise<NoteRow[]>;
+  /** Every note, archived ones included, oldest first */
+  listNotes(): Promise<NoteRow[]>;
+  /** @throws {Error} 'Note not found' */
+  updateNote(id: string, changes: NoteUpdate): Promise<{ note: NoteRow; revision: number }>;
+  /** @throws {Error} 'Note not found' */
+  archiveNote(id: string): Promise<boolean>;
+  /** @throws {Error} 'Note not found' */
+  restoreNote(id: string): Promise<boolean>;
+  /** Delete a note with its revisions and links. @throws {Error} 'Note not found' */
+  deleteNote(id: string): Promise<NoteRow>;
+  /** Revisions oldest first with the current state last; empty if the note does not exist */
+  getNoteHistory(id: string): Promise<NoteRevision[]>;
+
+  /** @throws {Error} If the link type is unknown or 'One or both notes not found' */
+  createLink(link: NewLink): Promise<{ link: NoteLink; created: boolean }>;
+  getNoteLinks(id: string): Promise<{ outgoing: LinkedNote[]; incoming: LinkedNote[] }>;
+  /** Links touching `ids` between non-archived notes */
+  getEdgesTouching(ids: string[], direction: LinkDirection, types?: string[]): Promise<GraphEdge[]>;
+
+  searchFullText(query: string, filters?: SearchFilters): Promise<FullTextHit[]>;
+  /** Non-archived notes among `ids` that pass the note filters */
+  filterNoteIds(ids: string[], filters: SearchFilters): Promise<Set<string>>;
+
+  recordNoteMemories(noteId: string, memoryIds: string[]): Promise<void>;
+  getNoteMemoryIds(noteId: string): Promise<string[]>;
+  /** Memory ID → note ID for the memories with a recorded owner */
+  getMemoryNoteIds(memoryIds: string[]): Promise<Map<string, string>>;
+  forgetNoteMemories(noteId: string): Promise<void>;
+
+  /**
+   * Queue a failed semantic index operation, replacing any pending one for the
+   * same note, or only `expected` if no other operation has replaced it
+   */
+  saveSyncItem(entry: QueuedSync, expected?: QueuedSync): Promise<void>;
+  /** Pending operation of a note */
+  getSyncItem(noteId: string): Promise<QueuedSync | undefined>;
+  /** Pending operations soonest first, optionally only those due by `dueBy` */
+  listSyncQueue(dueBy?: string): Promise<QueuedSync[]>;
+  /** Drop the pending operation of a note, or only `expected` if a newer one has not replaced it */
+  removeSyncItem(noteId: string, expected?: QueuedSync): Promise<void>;
+  /** Move an operation from the queue to the dead-letter table, only if it is still `expected` when given */
+  deadLetterSyncItem(entry: QueuedSync, expected?: QueuedSync): Promise<void>;
+  /** Dead operations, most recent failure first */
+  listDeadLetters(): Promise<DeadSync[]>;
+
+  /** Close the storage, for every vault */
+  close(): Promise<void>;
+}
+
+/**
+ * NoteRepository over the SQLite database in the storage directory
+ */
+export class SqliteNoteRepository implements NoteRepository {
+  constructor(readonly db: NotesDatabase, readonly vault: string = DEFAULT_VAULT) {}
+
+  forVault(vault: string): SqliteNoteRepository {
+    return new SqliteNoteRepository(this.db, vault);
+  }
+
+  listVaults(): Promise<VaultSummary[]> {
+    return listVaults(this.db);
+  }
+
+  getVault(id: string): Promise<Vault | undefined> {
+    return getVault(this.db, id);
+  }
+
+  createVault(vault: NewVault): Promise<Vault> {
+    return createVault(this.db, vault);
+  }
+
+  createNote(note: NewNote): Promise<NoteRow> {
+    return createNote(this.db, this.vault, note);
+  }
+
+  getNote(id: string): Promise<NoteRow | undefined> {
+    return getNoteRow(this.db, this.vault, id);
+  }
+
+  getNotes(ids: string[]): Promise<NoteRow[]> {
+    return getNoteRows(this.db, this.vault, ids);
+  }
+
+  listNotes(): Promise<NoteRow[]> {
+    return listNoteRows(this.db, this.vault);
+  }
+
+  updateNote(id: string, changes: NoteUpdate): Promise<{ note: NoteRow; revision: number }> {
+    return updateNote(this.db, this.vault, id, changes);
+  }
+
+  archiveNote(id: string): Promise<boolean> {
+    return archiveNote(this.db, this.vault, id);
+  }
+
+  restoreNote(id: string): Promise<boolean> {
+    return restoreNote(this.db, this.vault, id);
+  }
+
+  deleteNote(id: string): Promise<NoteRow> {
+    return deleteNote(this.db, this.vault, id);
+  }
+
+  getNoteHistory(id: string): Promise<NoteRevision[]> {
+    return getNoteHistory(this.db, this.vault, id);
+  }
+
+  createLink(link: NewLink): Promise<{ link: NoteLink; created: boolean }> {
+    return createLink(this.db, this.vault, link);
+  }
+
+  getNoteLinks(id: string): Promise<{ outgoing: LinkedNote[]; incoming: LinkedNote[] }> {
+    return getNoteLinks(this.db, this.vault, id);
+  }
+
+  getEdgesTouching(ids: string[], direction: LinkDirection, types?: string[]): Promise<GraphEdge[]> {
+    return getEdgesTouching(this.db, this.vault, ids, direction, types);
+  }
+
+  searchFullText(query: string, filters?: SearchFilters): Promise<FullTextHit[]> {
+    return searchFullText(this.db, this.vault, query, filters);
+  }
+
+  filterNoteIds(ids: string[], filters: SearchFilters): Promise<Set<string>> {
+    return filterNoteIds(this.db, this.vault, ids, filters);
+  }
+
+  recordNoteMemories(noteId: string, memoryIds: string[]): Promise<void> {
+    return recordNoteMemories(this.db, noteId, memoryIds);
+  }
+
+  getNoteMemoryIds(noteId: string): Promise<string[]> {
+    return getNoteMemoryIds(this.db, noteId);
+  }
+
+  getMemoryNoteIds(memoryIds: string[]): Promise<Map<string, string>> {
+    return getMemoryNoteIds(this.db, memoryIds);
+  }
+
+  forgetNoteMemories(noteId: string): Promise<void> {
+    return forgetNoteMemories(this.db, noteId);
+  }
+
+  saveSyncItem(entry: QueuedSync, expected?: QueuedSync): Promise<void> {
+    return saveSyncItem(this.db, this.vault, entry, expected);
+  }
+
+  getSyncItem(noteId: string): Promise<QueuedSync | undefined> {
+    return getSyncItem(this.db, this.vault, noteId);
+  }
+
+  listSyncQueue(dueBy?: string): Promise<QueuedSync[]> {
+    return listSyncQueue(this.db, this.vault, dueBy);
+  }
+
+  removeSyncItem(noteId: string, expected?: QueuedSync): Promise<void> {
+    return removeSyncItem(this.db, this.vault, noteId, expected);
+  }
+
+  deadLetterSyncItem(entry: QueuedSync, expected?: QueuedSync): Promise<void> {
+    return deadLetterSyncItem(this.db, this.vault, entry, expected);
+  }
+
+  listDeadLetters(): Promise<DeadSync[]> {
+    return listDeadLetters(this.db, this.vault);
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+}
+
+/**
+ * Open (creating if needed) the notes database and bring its schema up to date
+ * @param {string} filename - Path of the SQLite file
+ * @returns {Promise<SqliteNoteRepository>}
+ */
+export async function openSqliteRepository(filename: string): Promise<SqliteNoteRepository> {
+  const db = await openDatabase(filename);
+  // Performance optimizations
+  await db.exec('PRAGMA journal_mode=WAL;');
+  await db.exec('PRAGMA synchronous=NORMAL;');
+  await db.exec('PRAGMA foreign_keys=ON;');
+  await migrate(db);
+  return new SqliteNoteRepository(db);
+}
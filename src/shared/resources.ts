@@ -0,0 +1,254 @@
+/**
+ * Notes as MCP resources under the zk:// URI scheme
+ *
+ *   zk://note/{id}   a note as Markdown with YAML front matter, links and backlinks
+ *   zk://tag/{tag}   the notes carrying a tag
+ *   zk://graph/{id}  the link graph one hop around a note
+ *
+ * Both servers answer resources/list, resources/templates/list and
+ * resources/read from here, and use affectedResourceUris to decide which
+ * subscribed resources to report as updated after a tool changed notes.
+ */
+
+import { NoteRow, LinkedNote } from './types.js';
+import { NoteRepository } from './repository.js';
+import { parseTags } from './notes.js';
+import { getNeighbors } from './graph.js';
+
+export type ResourceKind = 'note' | 'tag' | 'graph';
+
+/** Notes changed by a tool call */
+export interface NoteChange {
+  /** Vault of the notes; only sessions in that vault are notified */
+  vault: string;
+  ids: string[];
+  /** Whether notes were added to or removed from resources/list (create, archive, restore, delete) */
+  listChanged: boolean;
+}
+
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const MARKDOWN = 'text/markdown';
+
+/** Resources per resources/list page */
+export const RESOURCE_PAGE_SIZE = 100;
+
+export const resourceTemplates = [
+  {
+    uriTemplate: 'zk://note/{id}',
+    name: 'Note',
+    description: 'A note as Markdown: front matter (id, vault, title, tags, timestamps), content, outgoing links and backlinks',
+    mimeType: MARKDOWN
+  },
+  {
+    uriTemplate: 'zk://tag/{tag}',
+    name: 'Notes by tag',
+    description: 'Every active note carrying a tag, with links to the notes',
+    mimeType: MARKDOWN
+  },
+  {
+    uriTemplate: 'zk://graph/{id}',
+    name: 'Link graph',
+    description: 'The notes linked to a note and the links between them, one hop out',
+    mimeType: MARKDOWN
+  }
+];
+
+export function noteUri(id: string): string {
+  return `zk://note/${encodeURIComponent(id)}`;
+}
+
+export function tagUri(tag: string): string {
+  return `zk://tag/${encodeURIComponent(tag)}`;
+}
+
+export function graphUri(id: string): string {
+  return `zk://graph/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Split a zk:// URI into its kind and (decoded) value
+ * @param {string} uri - Resource URI
+ * @returns {{ kind: ResourceKind, value: string }}
+ * @throws {Error} If the URI is not a zk://note, zk://tag or zk://graph URI
+ */
+export function parseResourceUri(uri: string): { kind: ResourceKind; value: string } {
+  const match = /^zk:\/\/(note|tag|graph)\/([^/?#]+)$/.exec(uri);
+  if (!match) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  return { kind: match[1] as ResourceKind, value: decodeURIComponent(match[2]) };
+}
+
+/** YAML scalar; JSON strings are valid YAML */
+function yaml(value: string | null): string {
+  return value === null ? 'null' : JSON.stringify(value);
+}
+
+function linkLine(link: LinkedNote): string {
+  return `- ${link.type} [${link.other_title}](${noteUri(link.other_id)})${link.note ? ` - ${link.note}` : ''}`;
+}
+
+async function activeNotes(repo: NoteRepository): Promise<NoteRow[]> {
+  return (await repo.listNotes()).filter(note => !note.archived_at);
+}
+
+/**
+ * Render a note as Markdown with YAML front matter, outgoing links and backlinks
+ * @param {NoteRow} note - Note row
+ * @param {{ outgoing: LinkedNote[], incoming: LinkedNote[] }} links - Output of getNoteLinks
+ * @returns {string}
+ */
+export function renderNoteMarkdown(note: NoteRow, links: { outgoing: LinkedNote[]; incoming: LinkedNote[] }): string {
+  const tags = parseTags(note.tags);
+  const lines = [
+    '---',
+    `id: ${yaml(note.id)}`,
+    `vault: ${yaml(note.vault_id)}`,
+    `title: ${yaml(note.title)}`,
+    `tags: [${tags.map(yaml).join(', ')}]`,
+    `created_at: ${yaml(note.created_at)}`,
+    `updated_at: ${yaml(note.updated_at)}`,
+    `archived_at: ${yaml(note.archived_at)}`,
+    '---',
+    '',
+    `# ${note.title}`,
+    '',
+    note.content
+  ];
+  if (links.outgoing.length) {
+    lines.push('', '## Links', '', ...links.outgoing.map(linkLine));
+  }
+  if (links.incoming.length) {
+    lines.push('', '## Backlinks', '', ...links.incoming.map(linkLine));
+  }
+  return lines.join('\n');
+}
+
+async function readNote(repo: NoteRepository, id: string): Promise<string> {
+  const note = await repo.getNote(id);
+  if (!note) {
+    throw new Error('Note not found');
+  }
+  return renderNoteMarkdown(note, await repo.getNoteLinks(id));
+}
+
+async function readTag(repo: NoteRepository, tag: string): Promise<string> {
+  const notes = (await activeNotes(repo)).filter(note => parseTags(note.tags).includes(tag));
+  const lines = ['---', `tag: ${yaml(tag)}`, `notes: ${notes.length}`, '---', '', `# Notes tagged "${tag}"`, ''];
+  if (!notes.length) {
+    lines.push('No notes carry this tag.');
+  }
+  for (const note of notes) {
+    const excerpt = note.content.length > 160 ? `${note.content.slice(0, 157)}...` : note.content;
+    lines.push(`- [${note.title}](${noteUri(note.id)}): ${excerpt.replace(/\s+/g, ' ')}`);
+  }
+  return lines.join('\n');
+}
+
+async function readGraph(repo: NoteRepository, id: string): Promise<string> {
+  const graph = await getNeighbors(repo, id);
+  const { root } = graph;
+  const lines = [
+    '---',
+    `root: ${yaml(root.id)}`,
+    `title: ${yaml(root.title)}`,
+    `notes: ${graph.nodes.length}`,
+    `links: ${graph.edges.length}`,
+    '---',
+    '',
+    `# Links around [${root.title}](${noteUri(root.id)})`
+  ];
+  if (!graph.edges.length) {
+    lines.push('', 'No linked notes.');
+    return lines.join('\n');
+  }
+  lines.push('', '## Notes', '');
+  for (const node of graph.nodes) {
+    lines.push(`- [${node.title}](${noteUri(node.id)})`);
+  }
+  lines.push('', '## Links', '');
+  for (const edge of graph.edges) {
+    lines.push(`- [${edge.from_title}](${noteUri(edge.from_id)}) ${edge.type} [${edge.to_title}](${noteUri(edge.to_id)})`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One page of resources: every active note, then every tag in use
+ * @param {NoteRepository} repo - Note storage
+ * @param {string} [cursor] - nextCursor of the previous page
+ * @returns {Promise<{ resources: ResourceEntry[], nextCursor?: string }>}
+ * @throws {Error} If the cursor is invalid
+ */
+export async function listResources(
+  repo: NoteRepository,
+  cursor?: string
+): Promise<{ resources: ResourceEntry[]; nextCursor?: string }> {
+  const offset = cursor === undefined ? 0 : Number(cursor);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  const notes = await activeNotes(repo);
+  const tags = [...new Set(notes.flatMap(note => parseTags(note.tags)))].sort();
+  const all: ResourceEntry[] = [
+    ...notes.map(note => {
+      const noteTags = parseTags(note.tags);
+      return {
+        uri: noteUri(note.id),
+        name: note.title,
+        description: noteTags.length ? `Tags: ${noteTags.join(', ')}` : undefined,
+        mimeType: MARKDOWN
+      };
+    }),
+    ...tags.map(tag => ({ uri: tagUri(tag), name: `#${tag}`, description: `Notes tagged "${tag}"`, mimeType: MARKDOWN }))
+  ];
+  const end = offset + RESOURCE_PAGE_SIZE;
+  return { resources: all.slice(offset, end), nextCursor: end < all.length ? String(end) : undefined };
+}
+
+/**
+ * Read a zk:// resource
+ * @param {NoteRepository} repo - Note storage
+ * @param {string} uri - Resource URI
+ * @returns {Promise<{ contents: ResourceContents[] }>}
+ * @throws {Error} 'Unknown resource: uri', or 'Note not found'
+ */
+export async function readResource(repo: NoteRepository, uri: string): Promise<{ contents: ResourceContents[] }> {
+  const { kind, value } = parseResourceUri(uri);
+  const text = kind === 'note' ? await readNote(repo, value)
+    : kind === 'tag' ? await readTag(repo, value)
+    : await readGraph(repo, value);
+  return { contents: [{ uri, mimeType: MARKDOWN, text }] };
+}
+
+/**
+ * Subscribed resources whose content may have changed. Note resources match
+ * the changed notes exactly; tag and graph resources aggregate other notes
+ * (titles, tags, links) and are reported on every change.
+ * @param {NoteChange} change - Notes changed by a tool
+ * @param {Iterable<string>} subscribed - Subscribed URIs
+ * @returns {string[]}
+ */
+export function affectedResourceUris(change: NoteChange, subscribed: Iterable<string>): string[] {
+  const changed = new Set(change.ids);
+  return [...subscribed].filter(uri => {
+    try {
+      const { kind, value } = parseResourceUri(uri);
+      return kind !== 'note' || changed.has(value);
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,268 @@
+/**
+ * Filters and paging for zk_search_notes, applied the same way to every search backend
+ *
+ * Mem0 memories carry their note's tags and creation time in their metadata.
+ * Tag filters are passed to Mem0 search, but both Mem0 stores compare
+ * metadata by equality only, so date ranges, links and `tag_mode: any` cannot
+ * be; semantic results are therefore still over-fetched, resolved to notes and
+ * checked against the notes table.
+ */
+
+import { NotesDatabase, NoteRow, NoteLink } from './types.js';
+import { parseTags } from './notes.js';
+import { resolveLinkType } from './link-types.js';
+import { toTimestamp } from './utils.js';
+import type { MemoryHit } from './note-memories.js';
+import type { NoteRepository } from './repository.js';
+
+export type TagMode = 'any' | 'all';
+
+export interface SearchFilters {
+  tags?: string[];
+  /** any: note has at least one of `tags`; all: note has every one */
+  tagMode: TagMode;
+  /** Inclusive lower bound on created_at, as `YYYY-MM-DD HH:MM:SS` UTC */
+  createdAfter?: string;
+  /** Exclusive upper bound on created_at, as `YYYY-MM-DD HH:MM:SS` UTC */
+  createdBefore?: string;
+  /** Only notes linked to this note, in either direction unless `linkType` says otherwise */
+  linkedTo?: string;
+  /** Only notes with a link of this type; an inverse name matches incoming links */
+  linkType?: string;
+  limit: number;
+  offset: number;
+  /** Minimum score on the scale of the search mode (Mem0 similarity, bm25 or RRF) */
+  minScore?: number;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 100;
+
+/** How many times `offset + limit` to request from Mem0 when results will be post-filtered */
+export const MEM0_OVERFETCH = 5;
+
+/** Memory metadata key marking a tag of the note, set to true */
+const TAG_METADATA_PREFIX = 'tag:';
+
+function toNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`Invalid ${name}: must be a number`);
+  }
+  return number;
+}
+
+/**
+ * Read search filters from tool arguments or a REST body (snake_case keys)
+ * @param {Record<string, any>} args - Raw arguments
+ * @returns {SearchFilters} Validated filters with defaults applied
+ * @throws {Error} If a filter has the wrong type or names an unknown link type
+ */
+export function parseSearchFilters(args: Record<string, any> = {}): SearchFilters {
+  const { tags, tag_mode: tagMode = 'any', linked_to: linkedTo, link_type: linkType } = args;
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+    throw new Error('Invalid tags: must be an array of strings');
+  }
+  if (tagMode !== 'any' && tagMode !== 'all') {
+    throw new Error('Invalid tag_mode: must be "any" or "all"');
+  }
+  if (linkedTo !== undefined && typeof linkedTo !== 'string') {
+    throw new Error('Invalid linked_to: must be a note ID');
+  }
+  if (linkType !== undefined) {
+    resolveLinkType(linkType);
+  }
+  const limit = toNumber(args.limit, 'limit') ?? DEFAULT_SEARCH_LIMIT;
+  const offset = toNumber(args.offset, 'offset') ?? 0;
+  return {
+    tags: tags?.length ? tags : undefined,
+    tagMode,
+    createdAfter: toTimestamp(args.created_after, 'created_after'),
+    createdBefore: toTimestamp(args.created_before, 'created_before'),
+    linkedTo: linkedTo || undefined,
+    linkType: linkType || undefined,
+    limit: Math.min(Math.max(Math.floor(limit), 1), MAX_SEARCH_LIMIT),
+    offset: Math.max(Math.floor(offset), 0),
+    minScore: toNumber(args.min_score, 'min_score')
+  };
+}
+
+/**
+ * Whether any filter needs the notes table (everything except paging and min_score)
+ * @param {SearchFilters} filters - Parsed filters
+ * @returns {boolean}
+ */
+export function hasNoteFilters(filters: SearchFilters): boolean {
+  return !!(filters.tags || filters.createdAfter || filters.createdBefore || filters.linkedTo || filters.linkType);
+}
+
+/**
+ * SQL conditions implementing the note filters, to be appended to a WHERE clause
+ * @param {SearchFilters} filters - Parsed filters
+ * @param {string} [alias='n'] - Alias of the notes table in the surrounding query
+ * @returns {{ sql: string, params: unknown[] }} `AND ...` conditions and their parameters
+ */
+export function noteFilterSql(filters: SearchFilters, alias: string = 'n'): { sql: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.tags) {
+    const list = filters.tags.map(() => '?').join(',');
+    conditions.push(filters.tagMode === 'all'
+      ? `(SELECT COUNT(DISTINCT value) FROM json_each(${alias}.tags) WHERE value IN (${list})) = ?`
+      : `EXISTS (SELECT 1 FROM json_each(${alias}.tags) WHERE value IN (${list}))`);
+    params.push(...filters.tags);
+    if (filters.tagMode === 'all') params.push(new Set(filters.tags).size);
+  }
+  if (filters.createdAfter) {
+    conditions.push(`${alias}.created_at >= ?`);
+    params.push(filters.createdAfter);
+  }
+  if (filters.createdBefore) {
+    conditions.push(`${alias}.created_at < ?`);
+    params.push(filters.createdBefore);
+  }
+  if (filters.linkedTo || filters.linkType) {
+    // Which end of the link the candidate note must be on
+    const sides: Array<['from_id' | 'to_id', 'from_id' | 'to_id']> = [['from_id', 'to_id'], ['to_id', 'from_id']];
+    let type: string | undefined;
+    let allowed = sides;
+    if (filters.linkType) {
+      const { definition, reversed } = resolveLinkType(filters.linkType);
+      type = definition.name;
+      if (!definition.symmetric) allowed = [sides[reversed ? 1 : 0]];
+    }
+    const clauses = allowed.map(([self, other]) => {
+      const parts = [`l.${self} = ${alias}.id`];
+      if (filters.linkedTo) {
+        parts.push(`l.${other} = ?`);
+        params.push(filters.linkedTo);
+      }
+      if (type) {
+        parts.push('l.type = ?');
+        params.push(type);
+      }
+      return `(${parts.join(' AND ')})`;
+    });
+    conditions.push(`EXISTS (SELECT 1 FROM links l WHERE ${clauses.join(' OR ')})`);
+  }
+  return { sql: conditions.map(c => ` AND ${c}`).join(''), params };
+}
+
+/**
+ * In-process equivalent of noteFilterSql, for repositories without SQL
+ * @param {NoteRow} note - Candidate note
+ * @param {NoteLink[]} links - Links touching the note
+ * @param {SearchFilters} filters - Parsed filters
+ * @returns {boolean} Whether the note passes the note filters (archiving is not checked)
+ */
+export function noteMatchesFilters(note: NoteRow, links: NoteLink[], filters: SearchFilters): boolean {
+  if (filters.tags) {
+    const tags = new Set(parseTags(note.tags));
+    const wanted = new Set(filters.tags);
+    const matched = [...wanted].filter(tag => tags.has(tag)).length;
+    if (filters.tagMode === 'all' ? matched < wanted.size : matched === 0) return false;
+  }
+  if (filters.createdAfter && note.created_at < filters.createdAfter) return false;
+  if (filters.createdBefore && note.created_at >= filters.createdBefore) return false;
+  if (filters.linkedTo || filters.linkType) {
+    let type: string | undefined;
+    let outgoing = true;
+    let incoming = true;
+    if (filters.linkType) {
+      const { definition, reversed } = resolveLinkType(filters.linkType);
+      type = definition.name;
+      if (!definition.symmetric) {
+        outgoing = !reversed;
+        incoming = reversed;
+      }
+    }
+    return links.some(link => {
+      if (type && link.type !== type) return false;
+      if (outgoing && link.from_id === note.id && (!filters.linkedTo || link.to_id === filters.linkedTo)) return true;
+      return incoming && link.to_id === note.id && (!filters.linkedTo || link.from_id === filters.linkedTo);
+    });
+  }
+  return true;
+}
+
+/**
+ * Which of the given notes exist, are not archived and pass the note filters
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault the notes must belong to
+ * @param {string[]} ids - Candidate note IDs
+ * @param {SearchFilters} filters - Parsed filters
+ * @returns {Promise<Set<string>>}
+ */
+export async function filterNoteIds(
+  db: NotesDatabase,
+  vault: string,
+  ids: string[],
+  filters: SearchFilters
+): Promise<Set<string>> {
+  if (!ids.length) {
+    return new Set();
+  }
+  const { sql, params } = noteFilterSql(filters);
+  const rows = await db.all<Array<{ id: string }>>(
+    `SELECT n.id FROM notes n
+     WHERE n.vault_id = ? AND n.archived_at IS NULL AND n.id IN (${ids.map(() => '?').join(',')})${sql}`,
+    vault, ...ids, ...params
+  );
+  return new Set(rows.map(row => row.id));
+}
+
+/**
+ * Memory metadata describing a note's tags: one key per tag, so that Mem0
+ * can match them by equality
+ * @param {string[]} tags - Tags of the note
+ * @returns {Record<string, true>}
+ */
+export function tagMetadata(tags: string[]): Record<string, true> {
+  return Object.fromEntries(tags.map(tag => [`${TAG_METADATA_PREFIX}${tag}`, true]));
+}
+
+/**
+ * The part of the filters Mem0 can apply itself, as memory metadata to match
+ * @param {SearchFilters} [filters] - Parsed filters
+ * @returns {Record<string, true> | undefined} Undefined if there is nothing Mem0 can filter on
+ */
+export function mem0MetadataFilter(filters?: SearchFilters): Record<string, true> | undefined {
+  // Matching every key is "all"; "any" of several tags has no equality form
+  if (!filters?.tags || (filters.tagMode === 'any' && new Set(filters.tags).size > 1)) {
+    return undefined;
+  }
+  return tagMetadata(filters.tags);
+}
+
+/**
+ * Number of memories to request from Mem0 so that a page survives post-filtering
+ * @param {SearchFilters} filters - Parsed filters
+ * @returns {number}
+ */
+export function mem0FetchLimit(filters: SearchFilters): number {
+  const wanted = filters.offset + filters.limit;
+  return hasNoteFilters(filters) || filters.minScore !== undefined ? wanted * MEM0_OVERFETCH : wanted;
+}
+
+/**
+ * Apply filters and paging to resolved Mem0 search results
+ * @param {NoteRepository} repo - Note storage
+ * @param {MemoryHit[]} hits - Output of resolveMemoryHits, best match first
+ * @param {SearchFilters} filters - Parsed filters
+ * @returns {Promise<MemoryHit[]>} The requested page of hits
+ */
+export async function filterMemoryHits(repo: NoteRepository, hits: MemoryHit[], filters: SearchFilters): Promise<MemoryHit[]> {
+  let kept = hits;
+  if (filters.minScore !== undefined) {
+    kept = kept.filter(hit => hit.score >= filters.minScore!);
+  }
+  if (hasNoteFilters(filters)) {
+    const allowed = await repo.filterNoteIds(kept.map(hit => hit.id), filters);
+    kept = kept.filter(hit => allowed.has(hit.id));
+  }
+  return kept.slice(filters.offset, filters.offset + filters.limit);
+}
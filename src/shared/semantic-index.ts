@@ -0,0 +1,353 @@
+/**
+ * Semantic index interface shared by both MCP servers, its Mem0 implementation
+ * and the factory picking an index for the configured mode
+ *
+ * The index only ever sees note IDs, titles and content; which memories belong
+ * to which note is recorded by the NoteRepository (see note-memories.ts).
+ */
+
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Memory } from 'mem0ai/oss';
+import MemoryClient from 'mem0ai';
+import { NoteRow, NotesDatabase } from './types.js';
+import { TimeoutError, withTimeout, normalizeSearchResults, noteIdOfMemory } from './utils.js';
+import { memoryIdsFromAddResult } from './note-memories.js';
+import { parseTags } from './notes.js';
+import { SearchFilters, tagMetadata, mem0MetadataFilter } from './search-filters.js';
+import { LocalSemanticIndex } from './local-index.js';
+import { HashedNgramEmbedder } from './embeddings.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { DEFAULT_VAULT, mem0UserIdForVault } from './vaults.js';
+
+/** A memory as returned by the index, best match first in search results */
+export interface SemanticMemory {
+  id: string;
+  memory: string;
+  score?: number;
+  metadata?: Record<string, any>;
+}
+
+/** Note as indexed; tags and creation time are stored with the memories when given */
+export type IndexedNote = Pick<NoteRow, 'id' | 'title' | 'content'> & Partial<Pick<NoteRow, 'tags' | 'created_at'>>;
+
+/** Upper bound on memories returned by a full scan (mem0's own default is 100) */
+export const MEM0_LIST_LIMIT = 10000;
+
+export interface SemanticIndex {
+  /** Shown in logs, e.g. "Note X synced to Mem0" */
+  readonly name: string;
+  /** Index a note, returning the IDs of the memories produced from it */
+  add(note: IndexedNote): Promise<string[]>;
+  /** Memories of a note found by scanning the index, for notes without a recorded mapping */
+  findByNote(noteId: string): Promise<string[]>;
+  /** Every memory in the index */
+  list(): Promise<SemanticMemory[]>;
+  get(memoryId: string): Promise<SemanticMemory | null>;
+  /** Delete a memory; one that does not exist (any more) counts as deleted */
+  delete(memoryId: string): Promise<void>;
+  /**
+   * Memories closest to the query. An index may leave out memories whose notes
+   * fail `filters`, as far as it can tell; callers check the notes themselves.
+   */
+  search(query: string, limit: number, filters?: SearchFilters): Promise<SemanticMemory[]>;
+}
+
+/**
+ * Abort signal of the Mem0 call in progress. The hosted client's requests pick
+ * it up, so a timed-out call is cancelled rather than left running.
+ */
+const callSignal = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Error response of the hosted Mem0 API. The client's own APIError does not
+ * carry the status, which tells an outage from a rejected request.
+ */
+export class Mem0ApiError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`API request failed: ${body}`);
+    this.name = 'Mem0ApiError';
+  }
+}
+
+/**
+ * MemoryClient whose HTTP requests are aborted with the call that made them
+ * and whose error responses keep their status.
+ * The OSS Memory takes no signal: its timed-out calls run to completion.
+ */
+class AbortableMemoryClient extends MemoryClient {
+  async _fetchWithErrorHandling(url: string, options: any): Promise<any> {
+    const response = await fetch(url, {
+      ...options,
+      signal: callSignal.getStore(),
+      headers: {
+        ...options.headers,
+        Authorization: `Token ${this.apiKey}`,
+        'Mem0-User-ID': this.telemetryId
+      }
+    });
+    if (!response.ok) {
+      throw new Mem0ApiError(response.status, await response.text());
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Whether a Mem0 call failed because the memory it names does not exist:
+ * a 404 from the hosted API, or the OSS Memory's own error
+ * @param {unknown} err - Rejection of a Mem0 call
+ * @returns {boolean}
+ */
+export function isMemoryNotFound(err: unknown): boolean {
+  if (err instanceof Mem0ApiError) {
+    return err.status === 404;
+  }
+  return err instanceof Error && /^Memory with ID .+ not found$/.test(err.message);
+}
+
+/** Error codes of a connection that could not be made or was dropped */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET'
+]);
+
+/** Connection errors of the OpenAI SDK, used by the OSS Memory */
+const CONNECTION_ERROR_CLASSES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+
+/**
+ * Whether a Mem0 call failed because Mem0 (or the OpenAI API behind the OSS
+ * Memory) is unavailable: a timeout, a network error, a 5xx response or rate
+ * limiting. Other errors, such as a rejected request, say nothing about
+ * availability and do not count towards opening the circuit breaker.
+ * @param {unknown} err - Rejection of a Mem0 call
+ * @returns {boolean}
+ */
+export function isMem0Outage(err: unknown): boolean {
+  if (err instanceof TimeoutError) {
+    return true;
+  }
+  if (!err || typeof err !== 'object') {
+    return false;
+  }
+  const error = err as { status?: unknown; code?: unknown; cause?: { code?: unknown }; message?: unknown };
+  if (typeof error.status === 'number') {
+    return error.status >= 500 || error.status === 429;
+  }
+  if (CONNECTION_ERROR_CLASSES.has(err.constructor?.name)) {
+    return true;
+  }
+  // fetch rejects with "TypeError: fetch failed", the socket error as its cause
+  if (err instanceof TypeError && error.message === 'fetch failed') {
+    return true;
+  }
+  return [error.code, error.cause?.code].some(code => typeof code === 'string' && NETWORK_ERROR_CODES.has(code));
+}
+
+export interface Mem0IndexOptions {
+  /** MemoryClient (hosted) when true, OSS Memory otherwise */
+  simpleMode: boolean;
+  /** Mem0 user holding the memories (see mem0UserIdForVault) */
+  userId: string;
+  /** Vault recorded in the metadata of every memory */
+  vault?: string;
+  timeoutMs: number;
+  /** Shared by every call, so an unreachable Mem0 fails fast instead of timing out each time */
+  breaker?: CircuitBreaker;
+}
+
+function toSemanticMemory(m: any): SemanticMemory {
+  return { id: String(m.id), memory: m.memory || m.content || '', score: m.score, metadata: m.metadata };
+}
+
+/**
+ * SemanticIndex over a Mem0 MemoryClient or OSS Memory instance.
+ * Every call is bounded by `timeoutMs` and goes through the circuit breaker, if any.
+ * An add that succeeds after its timeout is deleted again: the caller has
+ * queued it for retry by then, and the retry must not find a second copy.
+ */
+export class Mem0SemanticIndex implements SemanticIndex {
+  readonly name = 'Mem0';
+
+  constructor(private readonly client: any, private readonly options: Mem0IndexOptions) {}
+
+  private call<T>(fn: () => Promise<T>, onLate?: (result: T) => void): Promise<T> {
+    const run = () => withTimeout(signal => callSignal.run(signal, fn), this.options.timeoutMs, onLate);
+    return this.options.breaker ? this.options.breaker.call(run) : run();
+  }
+
+  /** Delete the memories of an add that completed after its timeout */
+  private discardLate(result: unknown): void {
+    for (const memoryId of memoryIdsFromAddResult(result)) {
+      // Bypasses timeout and breaker: best effort, and a retry purges leftovers
+      Promise.resolve(this.client.delete(memoryId)).catch(() => undefined);
+    }
+  }
+
+  /** The two clients spell the user option differently */
+  private scope(extra: Record<string, unknown> = {}): Record<string, unknown> {
+    const { simpleMode, userId } = this.options;
+    return simpleMode ? { user_id: userId, ...extra } : { userId, ...extra };
+  }
+
+  async add(note: IndexedNote): Promise<string[]> {
+    const { id, title, content } = note;
+    const payload = this.options.simpleMode
+      ? [{ role: 'user', content: `[${id}] ${title}: ${content}` }]
+      : [
+          { role: 'user', content: `Note: ${title}` },
+          { role: 'assistant', content }
+        ];
+    const tags = parseTags(note.tags ?? null);
+    const metadata = {
+      noteId: id,
+      title,
+      vaultId: this.options.vault ?? DEFAULT_VAULT,
+      tags,
+      // Mem0 sets createdAt itself, to the time of the add
+      noteCreatedAt: note.created_at,
+      ...tagMetadata(tags)
+    };
+    const result = await this.call(
+      () => this.client.add(payload, this.scope({ metadata })),
+      late => this.discardLate(late)
+    );
+    return memoryIdsFromAddResult(result);
+  }
+
+  async findByNote(noteId: string): Promise<string[]> {
+    return (await this.list())
+      .filter(m => noteIdOfMemory(m) === noteId)
+      .map(m => m.id);
+  }
+
+  async list(): Promise<SemanticMemory[]> {
+    const all = await this.call(() => this.client.getAll(this.scope({ limit: MEM0_LIST_LIMIT })));
+    return normalizeSearchResults(all).map(toSemanticMemory);
+  }
+
+  async get(memoryId: string): Promise<SemanticMemory | null> {
+    const found = await this.call(() => this.client.get(memoryId));
+    return found ? toSemanticMemory(found) : null;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    // A retry deletes memories an earlier attempt may already have deleted
+    await this.call(async () => {
+      try {
+        await this.client.delete(memoryId);
+      } catch (err) {
+        if (!isMemoryNotFound(err)) throw err;
+      }
+    });
+  }
+
+  /**
+   * Tag filters are matched against memory metadata by Mem0. Memories indexed
+   * before tags were stored there have none, so when filtered results fall
+   * short of `limit` an unfiltered search fills the rest.
+   */
+  async search(query: string, limit: number, filters?: SearchFilters): Promise<SemanticMemory[]> {
+    const metadata = mem0MetadataFilter(filters);
+    const search = (extra: Record<string, unknown> = {}) =>
+      this.call(() => this.client.search(query, this.scope({ limit, ...extra })))
+        .then(results => normalizeSearchResults(results).map(toSemanticMemory));
+    if (!metadata) {
+      return search();
+    }
+    // The hosted API takes metadata to match; the OSS Memory matches filters against it
+    const matched = await search(this.options.simpleMode ? { metadata } : { filters: { ...metadata } });
+    if (matched.length >= limit) {
+      return matched;
+    }
+    const seen = new Set(matched.map(m => m.id));
+    return [...matched, ...(await search()).filter(m => !seen.has(m.id))].slice(0, limit);
+  }
+}
+
+export interface Mem0ClientConfig {
+  simpleMode: boolean;
+  mem0ApiKey?: string;
+  openaiApiKey?: string;
+  /** Storage directory; the OSS vector store and history database are kept there */
+  dataDir: string;
+}
+
+/**
+ * Create the Mem0 client for the configured mode
+ * @param {Mem0ClientConfig} config - Mode, API keys and storage directory
+ * @returns {any} MemoryClient in simple mode, OSS Memory in advanced mode
+ */
+export function createMem0Client(config: Mem0ClientConfig): any {
+  if (config.simpleMode) {
+    return new AbortableMemoryClient({ apiKey: config.mem0ApiKey! });
+  }
+  return new Memory({
+    version: 'v1.1',
+    embedder: {
+      provider: 'openai',
+      config: {
+        apiKey: config.openaiApiKey,
+        model: 'text-embedding-3-small',
+      },
+    },
+    // mem0's 'memory' provider is a SQLite table of embeddings searched by
+    // cosine similarity; without dbPath it is created in the working directory
+    vectorStore: {
+      provider: 'memory',
+      config: {
+        collectionName: 'zettelkasten_memories',
+        dimension: 1536,
+        dbPath: path.join(config.dataDir, 'vector-store.db'),
+      },
+    },
+    llm: {
+      provider: 'openai',
+      config: {
+        apiKey: config.openaiApiKey,
+        model: 'gpt-4o-mini',
+      },
+    },
+    historyDbPath: path.join(config.dataDir, 'memory-history.db'),
+  });
+}
+
+export interface SemanticIndexConfig extends Mem0ClientConfig {
+  /** Offline embeddings in the notes database instead of Mem0 */
+  localMode: boolean;
+  userId: string;
+  timeoutMs: number;
+  /** Circuit breaker for the Mem0 calls */
+  breaker?: CircuitBreaker;
+}
+
+/**
+ * Factory of per-vault semantic indexes for the configured mode: Mem0 (simple
+ * or advanced) or the offline local index. Every vault's index shares one
+ * Mem0 client.
+ * @param {NotesDatabase} db - Notes database, which also holds the local vectors
+ * @param {SemanticIndexConfig} config - Mode, API keys, storage directory and Mem0 options
+ * @returns {(vault: string) => SemanticIndex}
+ */
+export function semanticIndexFactory(db: NotesDatabase, config: SemanticIndexConfig): (vault: string) => SemanticIndex {
+  if (config.localMode) {
+    const embedder = new HashedNgramEmbedder();
+    return vault => new LocalSemanticIndex(db, embedder, vault);
+  }
+  const client = createMem0Client(config);
+  const { simpleMode, userId, timeoutMs, breaker } = config;
+  return vault => new Mem0SemanticIndex(client, {
+    simpleMode, userId: mem0UserIdForVault(userId, vault), vault, timeoutMs, breaker
+  });
+}
+
+/**
+ * Create the semantic index of one vault for the configured mode
+ * @param {NotesDatabase} db - Notes database, which also holds the local vectors
+ * @param {SemanticIndexConfig} config - Mode, API keys, storage directory and Mem0 options
+ * @param {string} [vault] - Vault to index (default: the default vault)
+ * @returns {SemanticIndex}
+ */
+export function createSemanticIndex(db: NotesDatabase, config: SemanticIndexConfig, vault: string = DEFAULT_VAULT): SemanticIndex {
+  return semanticIndexFactory(db, config)(vault);
+}
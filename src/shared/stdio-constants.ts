@@ -9,13 +9,4 @@ export const stdioServerInfo = {
   name: 'zettelkasten-mem0-server',
   version: '1.0.0',
   transport: 'stdio'
-};
-
-/**
- * STDIO-specific capabilities
- */
-export const stdioCapabilities = {
-  tools: {},
-  resources: {},
-  prompts: {}
-}; 
\ No newline at end of file
+};
\ No newline at end of file
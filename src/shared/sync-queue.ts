@@ -0,0 +1,221 @@
+/**
+ * Persistent queue of semantic index operations that failed, and the
+ * dead-letter table for those that kept failing
+ *
+ * One pending operation is kept per note and a newer one replaces it. Nothing
+ * is lost that way: update and link operations re-index the whole note.
+ */
+
+import { NotesDatabase } from './types.js';
+import { withTransaction } from './database.js';
+
+export type SyncOp = 'create' | 'update' | 'delete' | 'link';
+
+/** Semantic index operation to perform */
+export interface SyncItem {
+  op: SyncOp;
+  /** Note ID (the source note for links) */
+  id: string;
+  title?: string;
+  content?: string;
+  /** Tags of the note as stored (JSON array) */
+  tags?: string | null;
+  created_at?: string;
+  /** Target note of a link */
+  to?: string;
+  /** Type of a link */
+  type?: string;
+}
+
+/** A failed operation waiting for its next attempt */
+export interface QueuedSync {
+  item: SyncItem;
+  /** Failed attempts so far */
+  attempts: number;
+  lastError: string | null;
+  /** `YYYY-MM-DD HH:MM:SS` UTC */
+  nextAttemptAt: string;
+  createdAt: string;
+}
+
+/** An operation given up on after too many attempts */
+export interface DeadSync extends Omit<QueuedSync, 'nextAttemptAt'> {
+  failedAt: string;
+}
+
+interface QueueRow {
+  payload: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+}
+
+type DeadRow = Omit<QueueRow, 'next_attempt_at'> & { failed_at: string };
+
+function parseItem(payload: string): SyncItem {
+  const item = JSON.parse(payload);
+  // Items queued before operations were typed have no op: they are creates
+  return { ...item, op: item.op ?? 'create' };
+}
+
+function fromRow(row: QueueRow): QueuedSync {
+  return {
+    item: parseItem(row.payload),
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Whether two queue entries are the same attempt of the same operation, i.e.
+ * the queue has not been written to between reading one and the other
+ * @param {QueuedSync} a - Queue entry
+ * @param {QueuedSync} b - Queue entry
+ * @returns {boolean}
+ */
+export function isSameSyncEntry(a: QueuedSync, b: QueuedSync): boolean {
+  return a.item.id === b.item.id && a.item.op === b.item.op && a.attempts === b.attempts;
+}
+
+/**
+ * Insert or replace the pending operation of a note
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault of the note
+ * @param {QueuedSync} entry - Operation and retry state
+ * @param {QueuedSync} [expected] - Only replace this entry: nothing is saved if another
+ *   operation has replaced or removed it since it was read
+ * @returns {Promise<void>}
+ */
+export async function saveSyncItem(
+  db: NotesDatabase,
+  vault: string,
+  entry: QueuedSync,
+  expected?: QueuedSync
+): Promise<void> {
+  if (expected) {
+    await db.run(
+      `UPDATE sync_queue SET op = ?, payload = ?, attempts = ?, last_error = ?, next_attempt_at = ?
+       WHERE note_id = ? AND vault_id = ? AND op = ? AND attempts = ?`,
+      entry.item.op, JSON.stringify(entry.item), entry.attempts, entry.lastError, entry.nextAttemptAt,
+      expected.item.id, vault, expected.item.op, expected.attempts
+    );
+    return;
+  }
+  await db.run(
+    `INSERT OR REPLACE INTO sync_queue (note_id, vault_id, op, payload, attempts, last_error, next_attempt_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    entry.item.id, vault, entry.item.op, JSON.stringify(entry.item),
+    entry.attempts, entry.lastError, entry.nextAttemptAt, entry.createdAt
+  );
+}
+
+/**
+ * Pending operation of a note
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault of the note
+ * @param {string} noteId - Note ID
+ * @returns {Promise<QueuedSync | undefined>}
+ */
+export async function getSyncItem(db: NotesDatabase, vault: string, noteId: string): Promise<QueuedSync | undefined> {
+  const row = await db.get<QueueRow>('SELECT * FROM sync_queue WHERE note_id = ? AND vault_id = ?', noteId, vault);
+  return row ? fromRow(row) : undefined;
+}
+
+/**
+ * Pending operations of a vault, soonest first
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @param {string} [dueBy] - Only operations whose next attempt is at or before this timestamp
+ * @returns {Promise<QueuedSync[]>}
+ */
+export async function listSyncQueue(db: NotesDatabase, vault: string, dueBy?: string): Promise<QueuedSync[]> {
+  const rows = dueBy === undefined
+    ? await db.all<QueueRow[]>('SELECT * FROM sync_queue WHERE vault_id = ? ORDER BY next_attempt_at, created_at', vault)
+    : await db.all<QueueRow[]>(
+        'SELECT * FROM sync_queue WHERE vault_id = ? AND next_attempt_at <= ? ORDER BY next_attempt_at, created_at',
+        vault, dueBy
+      );
+  return rows.map(fromRow);
+}
+
+/**
+ * Drop the pending operation of a note
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault of the note
+ * @param {string} noteId - Note ID
+ * @param {QueuedSync} [expected] - Only drop the operation if it is still this entry, with the same
+ *   operation and attempt count; a newer failure may have replaced it since it was read
+ * @returns {Promise<void>}
+ */
+export async function removeSyncItem(
+  db: NotesDatabase,
+  vault: string,
+  noteId: string,
+  expected?: QueuedSync
+): Promise<void> {
+  if (expected) {
+    await db.run(
+      'DELETE FROM sync_queue WHERE note_id = ? AND vault_id = ? AND op = ? AND attempts = ?',
+      noteId, vault, expected.item.op, expected.attempts
+    );
+  } else {
+    await db.run('DELETE FROM sync_queue WHERE note_id = ? AND vault_id = ?', noteId, vault);
+  }
+}
+
+/**
+ * Move an operation out of the queue into the dead-letter table
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault of the note
+ * @param {QueuedSync} entry - Operation with its final retry state
+ * @param {QueuedSync} [expected] - Queue entry being given up on: if another operation has
+ *   replaced or removed it since it was read, that one is kept and nothing is dead-lettered
+ * @returns {Promise<void>}
+ */
+export async function deadLetterSyncItem(
+  db: NotesDatabase,
+  vault: string,
+  entry: QueuedSync,
+  expected?: QueuedSync
+): Promise<void> {
+  await withTransaction(db, async () => {
+    if (expected) {
+      const { changes } = await db.run(
+        'DELETE FROM sync_queue WHERE note_id = ? AND vault_id = ? AND op = ? AND attempts = ?',
+        expected.item.id, vault, expected.item.op, expected.attempts
+      );
+      if (!changes) return;
+    } else {
+      await db.run('DELETE FROM sync_queue WHERE note_id = ? AND vault_id = ?', entry.item.id, vault);
+    }
+    await db.run(
+      `INSERT INTO sync_dead_letters (note_id, vault_id, op, payload, attempts, last_error, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      entry.item.id, vault, entry.item.op, JSON.stringify(entry.item),
+      entry.attempts, entry.lastError, entry.createdAt
+    );
+  });
+}
+
+/**
+ * Dead operations of a vault, most recent failure first
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} vault - Vault ID
+ * @returns {Promise<DeadSync[]>}
+ */
+export async function listDeadLetters(db: NotesDatabase, vault: string): Promise<DeadSync[]> {
+  const rows = await db.all<DeadRow[]>(
+    'SELECT * FROM sync_dead_letters WHERE vault_id = ? ORDER BY failed_at DESC, id DESC',
+    vault
+  );
+  return rows.map(row => ({
+    item: parseItem(row.payload),
+    attempts: row.attempts,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    failedAt: row.failed_at
+  }));
+}
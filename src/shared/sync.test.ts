@@ -0,0 +1,187 @@
+/**
+ * Retry queue of semantic index operations (SemanticSync, sync-queue.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Logger } from './logger.js';
+import { SqliteNoteRepository, openSqliteRepository } from './repository.js';
+import { SemanticIndex, SemanticMemory, IndexedNote } from './semantic-index.js';
+import { QueuedSync } from './sync-queue.js';
+import { SemanticSync, RetryPolicy, retryDelay } from './sync.js';
+import { sqliteTimestamp } from './utils.js';
+
+const quiet: Logger = { info() {}, warn() {}, error() {}, debug() {} };
+
+/** Retries are due as soon as they are queued */
+const IMMEDIATE: Partial<RetryPolicy> = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+/** In-memory index that can be made to fail, or to hold adds until released */
+class FakeIndex implements SemanticIndex {
+  readonly name = 'Fake';
+  readonly memories = new Map<string, SemanticMemory>();
+  failing = false;
+  adds = 0;
+  gate?: Promise<void>;
+  private nextId = 1;
+
+  async add(note: IndexedNote): Promise<string[]> {
+    this.adds++;
+    await this.gate;
+    if (this.failing) throw new Error('index down');
+    const id = `m${this.nextId++}`;
+    this.memories.set(id, { id, memory: `[${note.id}] ${note.content}`, metadata: { noteId: note.id } });
+    return [id];
+  }
+
+  async findByNote(noteId: string): Promise<string[]> {
+    return [...this.memories.values()].filter(m => m.metadata?.noteId === noteId).map(m => m.id);
+  }
+
+  async list(): Promise<SemanticMemory[]> {
+    return [...this.memories.values()];
+  }
+
+  async get(memoryId: string): Promise<SemanticMemory | null> {
+    return this.memories.get(memoryId) ?? null;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    if (this.failing) throw new Error('index down');
+    this.memories.delete(memoryId);
+  }
+
+  async search(): Promise<SemanticMemory[]> {
+    return [];
+  }
+}
+
+async function setup(): Promise<{ repo: SqliteNoteRepository; index: FakeIndex; sync: SemanticSync }> {
+  const repo = await openSqliteRepository(':memory:');
+  await repo.createNote({ id: 'a', title: 'Note a', content: 'first' });
+  const index = new FakeIndex();
+  return { repo, index, sync: new SemanticSync(repo, index, quiet, IMMEDIATE) };
+}
+
+function queued(id: string, attempts: number): QueuedSync {
+  return {
+    item: { op: 'create', id, title: `Note ${id}`, content: 'first' },
+    attempts,
+    lastError: 'index down',
+    nextAttemptAt: sqliteTimestamp(),
+    createdAt: sqliteTimestamp()
+  };
+}
+
+test('retry delays double up to the cap, half of each fixed and half random', () => {
+  const policy: RetryPolicy = { maxAttempts: 8, baseDelayMs: 1000, maxDelayMs: 5000 };
+  assert.deepEqual([1, 2, 3, 4].map(attempts => retryDelay(attempts, policy, () => 0)), [500, 1000, 2000, 2500]);
+  assert.equal(retryDelay(2, policy, () => 0.5), 1500);
+});
+
+test('a failed operation is queued and each failed retry counts one more attempt', async () => {
+  const { repo, index, sync } = await setup();
+  try {
+    index.failing = true;
+    assert.equal(await sync.syncNote({ id: 'a', title: 'Note a', content: 'first' }), false);
+    assert.equal((await repo.getSyncItem('a'))!.attempts, 1);
+
+    await sync.flushQueue();
+    const entry = (await repo.getSyncItem('a'))!;
+    assert.equal(entry.attempts, 2);
+    assert.equal(entry.lastError, 'index down');
+  } finally {
+    await repo.close();
+  }
+});
+
+test('a retry indexes the note as stored now and leaves the queue empty', async () => {
+  const { repo, index, sync } = await setup();
+  try {
+    index.failing = true;
+    await sync.syncNote({ id: 'a', title: 'Note a', content: 'first' });
+    await repo.updateNote('a', { content: 'second' });
+
+    index.failing = false;
+    await sync.flushQueue();
+    assert.equal(await repo.getSyncItem('a'), undefined);
+    assert.deepEqual((await index.list()).map(m => m.memory), ['[a] second']);
+    assert.deepEqual(await repo.getNoteMemoryIds('a'), ['m1']);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('an operation is dead-lettered once it has used up its attempts', async () => {
+  const { repo, index, sync } = await setup();
+  try {
+    index.failing = true;
+    await sync.syncNote({ id: 'a', title: 'Note a', content: 'first' });
+    await sync.flushQueue();
+    await sync.flushQueue();
+
+    const { pending, dead } = await sync.status();
+    assert.deepEqual(pending, []);
+    assert.equal(dead.length, 1);
+    assert.equal(dead[0].item.op, 'create');
+    assert.equal(dead[0].attempts, 3);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('a direct operation that succeeds supersedes the queued one', async () => {
+  const { repo, index, sync } = await setup();
+  try {
+    index.failing = true;
+    await sync.syncNote({ id: 'a', title: 'Note a', content: 'first' });
+
+    index.failing = false;
+    assert.equal(await sync.replaceNote({ id: 'a', title: 'Note a', content: 'second' }), true);
+    assert.equal(await repo.getSyncItem('a'), undefined);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('a retry waiting behind a direct operation on its note is skipped once that one completes it', async () => {
+  const { repo, index, sync } = await setup();
+  try {
+    await repo.saveSyncItem(queued('a', 1));
+    let release!: () => void;
+    index.gate = new Promise(resolve => { release = resolve; });
+
+    const direct = sync.replaceNote({ id: 'a', title: 'Note a', content: 'second' });
+    const flush = sync.flushQueue();
+    release();
+    assert.equal(await direct, true);
+    await flush;
+
+    assert.equal(index.adds, 1);
+    assert.equal(await repo.getSyncItem('a'), undefined);
+    assert.deepEqual((await index.list()).map(m => m.memory), ['[a] second']);
+  } finally {
+    await repo.close();
+  }
+});
+
+test('queue writes conditional on an entry leave a newer entry alone', async () => {
+  const { repo } = await setup();
+  try {
+    const stale = queued('a', 1);
+    const newer = queued('a', 2);
+    await repo.saveSyncItem(newer);
+
+    await repo.saveSyncItem(queued('a', 5), stale);
+    await repo.deadLetterSyncItem(queued('a', 5), stale);
+    await repo.removeSyncItem('a', stale);
+    assert.equal((await repo.getSyncItem('a'))!.attempts, 2);
+    assert.deepEqual(await repo.listDeadLetters(), []);
+
+    await repo.deadLetterSyncItem(queued('a', 3), newer);
+    assert.equal(await repo.getSyncItem('a'), undefined);
+    assert.equal((await repo.listDeadLetters())[0].attempts, 3);
+  } finally {
+    await repo.close();
+  }
+});
@@ -0,0 +1,428 @@
+/**
+ * Keeps the semantic index in step with the note repository
+ *
+ * Writes to the repository are the source of truth; index updates run after
+ * them. An operation the index rejects is queued in the repository and retried
+ * with exponential backoff until it succeeds or runs out of attempts, when it
+ * is moved to the dead-letter table.
+ *
+ * Retries are idempotent: an earlier attempt may have indexed part of the note,
+ * or had an add land after its timeout, so a retry first removes every memory
+ * of the note found in the index, recorded or not, then indexes the note as
+ * stored now, not as it was when the operation was queued.
+ *
+ * Operations on the same note run one at a time, direct ones and retries
+ * alike, and a retry only goes ahead, and only re-queues or dead-letters its
+ * entry, if no other operation has replaced or completed it meanwhile.
+ */
+
+import { Logger } from './logger.js';
+import { NoteRow, NoteLink, LinkedNote } from './types.js';
+import { NoteRepository } from './repository.js';
+import { SemanticIndex, SemanticMemory, IndexedNote } from './semantic-index.js';
+import { SyncItem, SyncOp, QueuedSync, DeadSync, isSameSyncEntry } from './sync-queue.js';
+import { noteIdOfMemory, sqliteTimestamp } from './utils.js';
+
+/** How the index compares to the notes table */
+export interface IndexAudit {
+  /** Every note, archived ones included */
+  notes: NoteRow[];
+  /** IDs of the memories found in the index for each note that has any */
+  indexed: Map<string, string[]>;
+  /** Notes with no memory in the index */
+  missing: NoteRow[];
+  /** Memories whose note does not exist (or cannot be determined) */
+  orphans: SemanticMemory[];
+}
+
+export interface RetryPolicy {
+  /** Failed attempts after which an operation is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled after every further failure */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 10 * 1000,
+  maxDelayMs: 60 * 60 * 1000
+};
+
+/**
+ * Delay before the next attempt: exponential backoff with "equal jitter", half
+ * fixed and half random, so operations that failed together spread out
+ * @param {number} attempts - Failed attempts so far (at least 1)
+ * @param {RetryPolicy} policy - Backoff settings
+ * @param {() => number} [random] - Source of randomness in [0, 1)
+ * @returns {number} Milliseconds
+ */
+export function retryDelay(attempts: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(attempts - 1, 0));
+  return ceiling / 2 + random() * (ceiling / 2);
+}
+
+/** Log wording of each operation once it succeeded */
+const DONE: Record<SyncOp, string> = {
+  create: 'synced to',
+  update: 're-synced to',
+  delete: 'removed from',
+  link: 'synced to'
+};
+
+function describeSync(item: SyncItem): string {
+  return item.op === 'link' ? `Link ${item.id} -> ${item.to} (${item.type})` : `Note ${item.id}`;
+}
+
+/** A link, indexed as a memory of its source note, e.g. `Caching: extends "Memoization"` */
+function linkMemory(note: IndexedNote, link: LinkedNote): IndexedNote {
+  return {
+    id: note.id,
+    title: note.title,
+    content: `${link.type} "${link.other_title}"${link.note ? `: ${link.note}` : ''}`,
+    tags: note.tags,
+    created_at: note.created_at
+  };
+}
+
+export class SemanticSync {
+  private readonly policy: RetryPolicy;
+  /** Last operation started on each note, which the next one waits for */
+  private readonly noteTails = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly repo: NoteRepository,
+    private readonly index: SemanticIndex,
+    private readonly logger: Logger,
+    policy: Partial<RetryPolicy> = {}
+  ) {
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
+  private async add(note: IndexedNote): Promise<void> {
+    await this.repo.recordNoteMemories(note.id, await this.index.add(note));
+  }
+
+  /** Index a note together with its outgoing links, one memory each */
+  private async addNote(note: IndexedNote): Promise<void> {
+    await this.add(note);
+    const { outgoing } = await this.repo.getNoteLinks(note.id);
+    for (const link of outgoing) {
+      await this.add(linkMemory(note, link));
+    }
+  }
+
+  /**
+   * Memory IDs of a note: from the recorded mapping or, for notes indexed
+   * before it existed, by scanning the index (the result is then recorded)
+   * @param {string} id - Note ID
+   * @returns {Promise<string[]>}
+   */
+  async findMemoryIds(id: string): Promise<string[]> {
+    const recorded = await this.repo.getNoteMemoryIds(id);
+    if (recorded.length) {
+      return recorded;
+    }
+    const found = await this.index.findByNote(id);
+    await this.repo.recordNoteMemories(id, found);
+    return found;
+  }
+
+  private async removeMemories(id: string): Promise<void> {
+    for (const memoryId of await this.findMemoryIds(id)) {
+      await this.index.delete(memoryId);
+    }
+    await this.repo.forgetNoteMemories(id);
+  }
+
+  /**
+   * Remove the recorded memories of a note and any others the index holds for
+   * it, such as those of an add that timed out on the client but still landed
+   */
+  private async purgeMemories(id: string): Promise<void> {
+    const recorded = await this.repo.getNoteMemoryIds(id);
+    const found = await this.index.findByNote(id);
+    for (const memoryId of new Set([...recorded, ...found])) {
+      await this.index.delete(memoryId);
+    }
+    await this.repo.forgetNoteMemories(id);
+  }
+
+  /**
+   * Perform an operation against the index, throwing if it fails
+   * @param {SyncItem} item - Operation to perform
+   * @param {boolean} retry - Whether an earlier attempt failed, possibly half-way
+   */
+  private async apply(item: SyncItem, retry: boolean): Promise<void> {
+    const clear = (id: string) => (retry ? this.purgeMemories(id) : this.removeMemories(id));
+    switch (item.op) {
+      case 'create':
+      case 'update': {
+        // A retry indexes the note as stored now: the queued copy may be stale
+        const note = retry
+          ? await this.repo.getNote(item.id)
+          : { id: item.id, title: item.title ?? '', content: item.content ?? '', tags: item.tags, created_at: item.created_at };
+        if (item.op === 'update' || retry) await clear(item.id);
+        if (note) await this.addNote(note);
+        break;
+      }
+      case 'delete':
+        await clear(item.id);
+        break;
+      case 'link': {
+        // Re-index the source note as stored now rather than adding one memory:
+        // a queued create or update of the note may already include the link
+        const source = await this.repo.getNote(item.id);
+        if (source) {
+          await clear(item.id);
+          await this.addNote(source);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Queue a failed operation for its next attempt, or dead-letter it once it
+   * has used up its attempts
+   * @param {SyncItem} item - Operation that failed
+   * @param {string} error - Error message
+   * @param {QueuedSync} [previous] - Queue entry being retried
+   * @returns {Promise<void>}
+   */
+  private async defer(item: SyncItem, error: string, previous?: QueuedSync): Promise<void> {
+    const attempts = (previous?.attempts ?? 0) + 1;
+    const entry: QueuedSync = {
+      item,
+      attempts,
+      lastError: error,
+      nextAttemptAt: sqliteTimestamp(new Date(Date.now() + retryDelay(attempts, this.policy))),
+      createdAt: previous?.createdAt ?? sqliteTimestamp()
+    };
+    if (attempts >= this.policy.maxAttempts) {
+      await this.repo.deadLetterSyncItem(entry, previous);
+      this.logger.error(`${describeSync(item)}: giving up after ${attempts} attempt(s), moved to dead letters`);
+    } else {
+      await this.repo.saveSyncItem(entry, previous);
+    }
+  }
+
+  /**
+   * Run work on a note once the operations started on it before have settled
+   * @param {string} noteId - Note ID
+   * @param {() => Promise<T>} work - Index operation
+   * @returns {Promise<T>}
+   */
+  private serialize<T>(noteId: string, work: () => Promise<T>): Promise<T> {
+    const result = (this.noteTails.get(noteId) ?? Promise.resolve()).then(work);
+    const tail = result.catch(() => undefined);
+    this.noteTails.set(noteId, tail);
+    tail.then(() => {
+      if (this.noteTails.get(noteId) === tail) this.noteTails.delete(noteId);
+    });
+    return result;
+  }
+
+  /**
+   * Run an operation, queueing it on failure. On success the note's queue
+   * entry is dropped: a direct operation indexes the note as it is now, so it
+   * supersedes whatever was queued, while a retry only drops its own entry
+   * unless a newer failure has replaced it meanwhile.
+   */
+  private run(item: SyncItem, previous?: QueuedSync): Promise<boolean> {
+    return this.serialize(item.id, async () => {
+      if (previous) {
+        const current = await this.repo.getSyncItem(item.id);
+        if (!current || !isSameSyncEntry(current, previous)) {
+          // Another operation on the note replaced or completed this one while it waited
+          return true;
+        }
+      }
+      try {
+        await this.apply(item, previous !== undefined);
+        this.logger.info(`${describeSync(item)} ${DONE[item.op]} ${this.index.name}`);
+      } catch (err: any) {
+        this.logger.error(`${this.index.name} ${item.op} failed for ${describeSync(item)}: ${err.message}`);
+        await this.defer(item, err.message, previous);
+        return false;
+      }
+      await this.repo.removeSyncItem(item.id, previous);
+      return true;
+    });
+  }
+
+  /**
+   * Index a new note, queueing it on failure
+   * @param {IndexedNote} note - Note to index
+   * @returns {Promise<boolean>} False if the note was queued
+   */
+  async syncNote(note: IndexedNote): Promise<boolean> {
+    const { id, title, content, tags, created_at } = note;
+    return this.run({ op: 'create', id, title, content, tags, created_at });
+  }
+
+  /**
+   * Replace the memories of an edited note instead of adding a second copy
+   * @param {IndexedNote} note - Note as updated
+   * @returns {Promise<boolean>} False if the update was queued
+   */
+  async replaceNote(note: IndexedNote): Promise<boolean> {
+    const { id, title, content, tags, created_at } = note;
+    return this.run({ op: 'update', id, title, content, tags, created_at });
+  }
+
+  /**
+   * Remove every memory of a deleted note, queueing the delete on failure
+   * @param {string} id - Note ID
+   * @returns {Promise<boolean>} False if the delete was queued
+   */
+  async removeNote(id: string): Promise<boolean> {
+    return this.run({ op: 'delete', id });
+  }
+
+  /**
+   * Index a new link as a memory of its source note, queueing it on failure.
+   * The source note is re-indexed with all its links.
+   * @param {NoteLink} link - Link as stored
+   * @returns {Promise<boolean>} False if the link was queued
+   */
+  async syncLink(link: NoteLink): Promise<boolean> {
+    return this.run({ op: 'link', id: link.from_id, to: link.to_id, type: link.type });
+  }
+
+  /**
+   * Text of each memory of a note, note memory first, then its links
+   * @param {string} id - Note ID
+   * @returns {Promise<string[]>}
+   * @throws {Error} If the index is unavailable
+   */
+  async listNoteMemories(id: string): Promise<string[]> {
+    const memories: string[] = [];
+    for (const memoryId of await this.findMemoryIds(id)) {
+      const found = await this.index.get(memoryId);
+      if (found) memories.push(found.memory);
+    }
+    return memories;
+  }
+
+  /**
+   * Text of a note's memories, one per line
+   * @param {string} id - Note ID
+   * @returns {Promise<string | null>} Null if the note has no memories or the index is unavailable
+   */
+  async getNoteMemories(id: string): Promise<string | null> {
+    try {
+      const memories = await this.listNoteMemories(id);
+      return memories.length ? memories.join('\n') : null;
+    } catch (err: any) {
+      this.logger.warn(`${this.index.name} get failed for ${id}: ${err.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Compare the whole index with the notes table. A memory belongs to the note
+   * recorded for it, or else to the note named in its metadata or text.
+   * @returns {Promise<IndexAudit>}
+   */
+  async audit(): Promise<IndexAudit> {
+    const memories = await this.index.list();
+    const owners = await this.repo.getMemoryNoteIds(memories.map(m => m.id));
+    const notes = await this.repo.listNotes();
+    const noteIds = new Set(notes.map(note => note.id));
+    const indexed = new Map<string, string[]>();
+    const orphans: SemanticMemory[] = [];
+    for (const memory of memories) {
+      const noteId = owners.get(memory.id) ?? noteIdOfMemory(memory);
+      if (noteId && noteIds.has(noteId)) {
+        indexed.set(noteId, [...(indexed.get(noteId) ?? []), memory.id]);
+      } else {
+        orphans.push(memory);
+      }
+    }
+    return { notes, indexed, missing: notes.filter(note => !indexed.has(note.id)), orphans };
+  }
+
+  /**
+   * Index every note that has no memory in the index, e.g. after the vector
+   * store was lost. Stale mappings of those notes are dropped first; failures
+   * are queued like any other sync.
+   * @returns {Promise<number>} Number of notes re-indexed
+   */
+  async reindexMissing(): Promise<number> {
+    const { missing } = await this.audit();
+    if (!missing.length) {
+      return 0;
+    }
+    this.logger.info(`Re-indexing ${missing.length} note(s) missing from ${this.index.name}`);
+    for (const note of missing) {
+      await this.repo.forgetNoteMemories(note.id);
+      await this.syncNote(note);
+    }
+    return missing.length;
+  }
+
+  /**
+   * Retry the queued operations whose next attempt is due
+   * @returns {Promise<void>}
+   */
+  async flushQueue(): Promise<void> {
+    try {
+      const due = await this.repo.listSyncQueue(sqliteTimestamp());
+      if (!due.length) return;
+
+      this.logger.info(`Retrying ${due.length} queued sync operation(s)`);
+      for (const entry of due) {
+        // run() drops the entry on success and re-queues it with one more attempt on failure
+        await this.run(entry.item, entry);
+      }
+    } catch (err: any) {
+      this.logger.error(`Retry queue flush error: ${err.message}`);
+    }
+  }
+
+  /**
+   * Pending and dead-lettered operations
+   * @returns {Promise<SyncStatus>}
+   */
+  async status(): Promise<SyncStatus> {
+    return { pending: await this.repo.listSyncQueue(), dead: await this.repo.listDeadLetters() };
+  }
+}
+
+/** Entries of each list shown by zk_sync_status unless `limit` says otherwise */
+export const DEFAULT_SYNC_STATUS_LIMIT = 20;
+
+export interface SyncStatus {
+  /** Queued operations, soonest first */
+  pending: QueuedSync[];
+  /** Operations given up on, most recent first */
+  dead: DeadSync[];
+}
+
+/**
+ * Format the retry queue and dead letters for a text tool response
+ * @param {SyncStatus} status - Output of SemanticSync.status
+ * @param {number} limit - Entries shown per list
+ * @returns {string}
+ */
+export function formatSyncStatus(status: SyncStatus, limit: number): string {
+  const { pending, dead } = status;
+  const now = sqliteTimestamp();
+  const due = pending.filter(entry => entry.nextAttemptAt <= now).length;
+  const lines = [`Pending: ${pending.length} (${due} due now)`];
+  for (const entry of pending.slice(0, limit)) {
+    lines.push(`- ${describeSync(entry.item)} [${entry.item.op}]: ${entry.attempts} attempt(s), next at ${entry.nextAttemptAt}` +
+      (entry.lastError ? `, last error: ${entry.lastError}` : ''));
+  }
+  lines.push(`Dead letters: ${dead.length}`);
+  for (const entry of dead.slice(0, limit)) {
+    lines.push(`- ${describeSync(entry.item)} [${entry.item.op}]: failed at ${entry.failedAt} after ${entry.attempts} attempt(s)` +
+      (entry.lastError ? `, last error: ${entry.lastError}` : ''));
+  }
+  const hidden = Math.max(pending.length - limit, 0) + Math.max(dead.length - limit, 0);
+  if (hidden) {
+    lines.push(`(${hidden} more not shown)`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,163 @@
+/**
+ * Tool dispatcher (executeTool), run against the in-memory repository
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Logger } from './logger.js';
+import { InMemoryNoteRepository } from './memory-repository.js';
+import { SemanticIndex, SemanticMemory, IndexedNote } from './semantic-index.js';
+import { SemanticSync } from './sync.js';
+import { ToolContext, ToolInputError, ToolPermissionError, executeTool, isNotFoundError } from './tools.js';
+
+const quiet: Logger = { info() {}, warn() {}, error() {}, debug() {} };
+
+/** Index holding one memory per add, or failing every call while `failing` is set */
+class FakeIndex implements SemanticIndex {
+  readonly name = 'Fake';
+  readonly memories: SemanticMemory[] = [];
+  failing = false;
+
+  private check(): void {
+    if (this.failing) throw new Error('index down');
+  }
+
+  async add(note: IndexedNote): Promise<string[]> {
+    this.check();
+    const id = `m${this.memories.length + 1}`;
+    this.memories.push({ id, memory: `[${note.id}] ${note.title}`, score: 0.5, metadata: { noteId: note.id } });
+    return [id];
+  }
+
+  async findByNote(noteId: string): Promise<string[]> {
+    this.check();
+    return this.memories.filter(m => m.metadata?.noteId === noteId).map(m => m.id);
+  }
+
+  async list(): Promise<SemanticMemory[]> {
+    this.check();
+    return [...this.memories];
+  }
+
+  async get(memoryId: string): Promise<SemanticMemory | null> {
+    this.check();
+    return this.memories.find(m => m.id === memoryId) ?? null;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    this.check();
+    const found = this.memories.findIndex(m => m.id === memoryId);
+    if (found >= 0) this.memories.splice(found, 1);
+  }
+
+  async search(): Promise<SemanticMemory[]> {
+    this.check();
+    return [...this.memories];
+  }
+}
+
+function context(scopes?: ToolContext['scopes']): ToolContext & { index: FakeIndex } {
+  const repo = new InMemoryNoteRepository();
+  const index = new FakeIndex();
+  return { repo, index, sync: new SemanticSync(repo, index, quiet), logger: quiet, scopes };
+}
+
+/** Let the background index sync started by a tool finish */
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+async function createNote(ctx: ToolContext, title: string, content: string, tags?: string[]): Promise<string> {
+  const { data } = await executeTool(ctx, 'zk_create_note', { title, content, tags });
+  return (data as { id: string }).id;
+}
+
+test('a note is created, indexed in the background, updated and read back with its history', async () => {
+  const ctx = context();
+  const id = await createNote(ctx, 'Caching', 'Memoization', ['perf']);
+  await settle();
+  assert.deepEqual(ctx.index.memories.map(m => m.memory), [`[${id}] Caching`]);
+
+  const updated = await executeTool(ctx, 'zk_update_note', { id, content: 'Memoization trades memory for speed' });
+  assert.deepEqual({ ...updated.data, updated_at: undefined }, {
+    id, title: 'Caching', content: 'Memoization trades memory for speed', tags: ['perf'],
+    updated_at: undefined, revision: 1, via: 'sqlite'
+  });
+  assert.ok((updated.data as { updated_at: string | null }).updated_at);
+
+  const note = await executeTool(ctx, 'zk_get_note', { id });
+  assert.match(note.text, /^Note: Caching\nMemoization trades memory for speed\n\nTags: perf/);
+
+  const history = await executeTool(ctx, 'zk_get_note_history', { id });
+  assert.deepEqual((history.data as { revisions: Array<{ content: string }> }).revisions.map(r => r.content),
+    ['Memoization', 'Memoization trades memory for speed']);
+});
+
+test('a note whose indexing fails is queued for retry', async () => {
+  const ctx = context();
+  ctx.index.failing = true;
+  const id = await createNote(ctx, 'Caching', 'Memoization');
+  await settle();
+  const status = await executeTool(ctx, 'zk_sync_status', {});
+  assert.equal((status.data as { pendingCount: number }).pendingCount, 1);
+  assert.match(status.text, new RegExp(`Note ${id} \\[create\\]: 1 attempt\\(s\\)`));
+});
+
+test('invalid arguments and missing notes are reported as such', async () => {
+  const ctx = context();
+  await assert.rejects(executeTool(ctx, 'zk_create_note', { title: 'No content' }), ToolInputError);
+  await assert.rejects(executeTool(ctx, 'zk_update_note', { id: 'x' }), /Nothing to update/);
+  await assert.rejects(executeTool(ctx, 'zk_search_notes', { query: 'x', mode: 'fuzzy' }), /Invalid mode/);
+  await assert.rejects(executeTool(ctx, 'zk_create_link', { from: 'a', to: 'b', type: 'causes' }), ToolInputError);
+  await assert.rejects(executeTool(ctx, 'zk_not_a_tool'), /Unknown tool: zk_not_a_tool/);
+  await assert.rejects(executeTool(ctx, 'zk_get_note', { id: 'missing' }), (err: unknown) => isNotFoundError(err));
+});
+
+test('the caller\'s scopes decide which tools run', async () => {
+  const ctx = context(['read']);
+  await assert.rejects(executeTool(ctx, 'zk_create_note', { title: 'T', content: 'C' }), ToolPermissionError);
+  await assert.rejects(executeTool(ctx, 'zk_sync_status'), /zk_sync_status needs the admin scope/);
+  assert.equal(((await executeTool(ctx, 'zk_list_vaults')).data as { current: string }).current, 'default');
+});
+
+test('links given by their inverse name are stored forward and walked by the graph tools', async () => {
+  const ctx = context();
+  const a = await createNote(ctx, 'Caching', 'a');
+  const b = await createNote(ctx, 'Memoization', 'b');
+  const { data } = await executeTool(ctx, 'zk_create_link', { from: b, to: a, type: 'extended_by' });
+  assert.deepEqual({ ...data, link: undefined }, { success: true, created: true, from: a, to: b, type: 'extends', link: undefined });
+
+  const neighbors = await executeTool(ctx, 'zk_get_neighbors', { id: b, direction: 'incoming' });
+  assert.deepEqual((neighbors.data as { nodes: Array<{ id: string }> }).nodes.map(node => node.id), [a]);
+  const path = await executeTool(ctx, 'zk_find_path', { from: b, to: a });
+  assert.match(path.text, /Memoization \(.+\) ←extends— Caching/);
+});
+
+test('search falls back to full-text when the index fails, and says so', async () => {
+  const ctx = context();
+  const id = await createNote(ctx, 'Caching', 'Memoization trades memory for speed');
+  await createNote(ctx, 'Tokens', 'Refresh them');
+  await settle();
+
+  const semantic = await executeTool(ctx, 'zk_search_notes', { query: 'memory' });
+  assert.equal((semantic.data as { via: string }).via, 'mem0');
+
+  ctx.index.failing = true;
+  const fallback = await executeTool(ctx, 'zk_search_notes', { query: 'memory' });
+  assert.deepEqual(fallback.data, { results: await ctx.repo.searchFullText('memory'), via: 'sqlite' });
+  assert.equal((fallback.data as { results: Array<{ id: string }> }).results[0].id, id);
+
+  const hybrid = await executeTool(ctx, 'zk_search_notes', { query: 'memory', mode: 'hybrid' });
+  assert.equal((hybrid.data as { via: string }).via, 'sqlite');
+  assert.deepEqual((hybrid.data as { sources: string[] }).sources, ['fts']);
+  assert.match(hybrid.text, /^Search results \(hybrid, full-text only\)/);
+});
+
+test('an archived note is hidden from search until restored', async () => {
+  const ctx = context();
+  const id = await createNote(ctx, 'Caching', 'Memoization');
+  const search = async () => (await executeTool(ctx, 'zk_search_notes', { query: 'memoization', mode: 'fulltext' })).data as { results: unknown[] };
+
+  assert.deepEqual((await executeTool(ctx, 'zk_delete_note', { id })).data, { id, mode: 'archive', changed: true });
+  assert.deepEqual((await search()).results, []);
+  assert.deepEqual((await executeTool(ctx, 'zk_restore_note', { id })).data, { id, changed: true });
+  assert.equal((await search()).results.length, 1);
+});
@@ -0,0 +1,557 @@
+/**
+ * Tool dispatcher shared by the stdio server, the MCP HTTP transports and the REST routes
+ *
+ * Every tool returns both the text shown to MCP clients and the JSON body of
+ * the matching REST route, so the three entry points cannot drift apart. MCP
+ * clients get that body too, as structured content (see output-schemas.ts).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from './logger.js';
+import { NoteRepository } from './repository.js';
+import { SemanticIndex } from './semantic-index.js';
+import { SemanticSync, formatSyncStatus, DEFAULT_SYNC_STATUS_LIMIT } from './sync.js';
+import { NoteRow, LinkedNote } from './types.js';
+import { methodologyResponse } from './constants.js';
+import { parseTags, formatNoteHistory, diffRevisions } from './notes.js';
+import { formatNoteLinks } from './links.js';
+import { resolveLinkType } from './link-types.js';
+import { formatFullTextResults } from './fulltext.js';
+import { hybridSearch, formatHybridResults } from './hybrid.js';
+import { SearchFilters, parseSearchFilters, filterMemoryHits, mem0FetchLimit } from './search-filters.js';
+import { MemoryHit, resolveMemoryHits, formatMemoryHits } from './note-memories.js';
+import { parseReindexOptions, reindexNotes, formatReindexReport } from './reindex.js';
+import { NoteChange } from './resources.js';
+import { VaultContexts, parseVaultId, formatVaults } from './vaults.js';
+import { ApiScope, hasScope, toolScope } from './api-keys.js';
+import { AuditLog, AuditCaller, parseAuditQuery, formatAuditPage } from './audit.js';
+import {
+  getNeighbors, formatSubgraph, canonicalLinkTypes, LinkDirection,
+  findPaths, formatPaths, DEFAULT_PATH_DEPTH
+} from './graph.js';
+
+export interface ToolContext {
+  repo: NoteRepository;
+  index: SemanticIndex;
+  sync: SemanticSync;
+  logger: Logger;
+  /** Called after a tool changed notes, e.g. to notify resource subscribers */
+  onNoteChange?: (change: NoteChange) => void;
+  /** Contexts of the other vaults, for the `vault` argument; without it only `repo.vault` is available */
+  vaults?: VaultContexts;
+  /** Scopes of the caller's API key; unset when calls are not restricted (stdio, auth disabled) */
+  scopes?: ApiScope[];
+  /** ID of the caller's API key, for the audit log */
+  apiKeyId?: string;
+  /** Where tool calls are recorded (see auditToolCall); shared by every vault */
+  audit?: AuditLog;
+}
+
+export interface ToolOutput {
+  /** Text content for MCP clients */
+  text: string;
+  /** Response body for the REST route and MCP structured content; matches the tool's outputSchema */
+  data: object;
+}
+
+/**
+ * Invalid tool arguments; REST routes answer these with 400
+ */
+export class ToolInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolInputError';
+  }
+}
+
+/**
+ * Tool call not allowed by the caller's scopes; REST routes answer these with 403
+ */
+export class ToolPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolPermissionError';
+  }
+}
+
+/**
+ * Whether the caller's scopes allow a tool
+ * @param {ToolContext} ctx - Tool context of the caller
+ * @param {string} name - Tool name
+ * @returns {boolean}
+ */
+export function canCallTool(ctx: ToolContext, name: string): boolean {
+  return !ctx.scopes || hasScope(ctx.scopes, toolScope(name));
+}
+
+/**
+ * Whether an error means the requested note (or revision) does not exist
+ * @param {unknown} err - Error thrown by executeTool
+ * @returns {boolean}
+ */
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof Error && /not found$/.test(err.message);
+}
+
+/** Run a validator, reporting its error as invalid input */
+function validate<T>(check: () => T): T {
+  try {
+    return check();
+  } catch (err: any) {
+    throw new ToolInputError(err.message);
+  }
+}
+
+/**
+ * Tool context of a vault, for the `vault` argument and the vault header of the HTTP server
+ * @param {ToolContext} ctx - Context of the current vault
+ * @param {unknown} vault - Requested vault ID
+ * @returns {Promise<ToolContext>}
+ * @throws {ToolInputError} If the ID is invalid or vaults cannot be switched
+ * @throws {Error} 'Vault not found'
+ */
+export async function selectVault(ctx: ToolContext, vault: unknown): Promise<ToolContext> {
+  const id = validate(() => parseVaultId(vault));
+  if (id === ctx.repo.vault) {
+    return ctx;
+  }
+  if (!ctx.vaults) {
+    throw new ToolInputError(`Only vault "${ctx.repo.vault}" is available`);
+  }
+  return ctx.vaults.get(id);
+}
+
+function requireId(args: Record<string, any>): string {
+  const id = args.id;
+  if (typeof id !== 'string' || !id) {
+    throw new ToolInputError('Note ID required');
+  }
+  return id;
+}
+
+function optionalNumber(args: Record<string, any>, key: string): number | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ToolInputError(`Invalid ${key}: must be a number`);
+  }
+  return value;
+}
+
+function optionalStrings(args: Record<string, any>, key: string): string[] | undefined {
+  const value = args[key];
+  if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+    throw new ToolInputError(`Invalid ${key}: must be an array of strings`);
+  }
+  return value;
+}
+
+async function searchNotes(ctx: ToolContext, query: string, mode: string, filters: SearchFilters): Promise<ToolOutput> {
+  const { repo, index, logger } = ctx;
+  if (mode === 'hybrid') {
+    const { hits: results, sources } = await hybridSearch(repo, index, query, filters, logger);
+    if (sources.length === 2) {
+      return { text: `Search results (hybrid):\n${formatHybridResults(results)}`, data: { results, via: 'hybrid', sources } };
+    }
+    // One source failed: say which one answered rather than passing its results off as fused
+    const [via, label] = sources[0] === 'mem0' ? ['mem0', `${index.name} only`] : ['sqlite', 'full-text only'];
+    return {
+      text: `Search results (hybrid, ${label}):\n${formatHybridResults(results)}`,
+      data: { results, via, sources }
+    };
+  }
+  if (mode === 'fulltext') {
+    const results = await repo.searchFullText(query, filters);
+    return { text: `Search results (full-text):\n${formatFullTextResults(results)}`, data: { results, via: 'sqlite' } };
+  }
+  try {
+    const hits = await resolveMemoryHits(repo, await index.search(query, mem0FetchLimit(filters), filters));
+    const results = await filterMemoryHits(repo, hits, filters);
+    return { text: `Search results:\n${formatMemoryHits(results)}`, data: { results, via: 'mem0' } };
+  } catch (err: any) {
+    logger.warn(`${index.name} search error: ${err.message}, using full-text fallback`);
+    const results = await repo.searchFullText(query, filters);
+    return { text: `Search results (SQLite):\n${formatFullTextResults(results)}`, data: { results, via: 'sqlite' } };
+  }
+}
+
+/** local: the SQLite note; semantic: the note's memories in the index; both: the note enriched with them */
+type NoteSource = 'local' | 'semantic' | 'both';
+
+/** Related notes attached to zk_get_note with source "both" */
+const RELATED_NOTES_LIMIT = 5;
+
+/** Canonical note text: title, content, tags, timestamps and links */
+function formatNote(row: NoteRow, links: { outgoing: LinkedNote[]; incoming: LinkedNote[] }): string {
+  const tags = parseTags(row.tags);
+  const lines = [`Note: ${row.title}`, row.content, ''];
+  if (tags.length) lines.push(`Tags: ${tags.join(', ')}`);
+  lines.push(`Created: ${row.created_at}${row.updated_at ? `, updated: ${row.updated_at}` : ''}`);
+  if (row.archived_at) lines.push(`Archived: ${row.archived_at}`);
+  const linksText = formatNoteLinks(links);
+  return linksText ? `${lines.join('\n')}\n\n${linksText}` : lines.join('\n');
+}
+
+/**
+ * The note's own memories and the notes whose memories are closest to it.
+ * The note itself is always read from SQLite; this only adds to it.
+ */
+async function semanticEnrichment(ctx: ToolContext, row: NoteRow): Promise<{ memories: string[]; related: MemoryHit[] }> {
+  const { repo, index, sync } = ctx;
+  const memories = await sync.listNoteMemories(row.id);
+  // Over-fetch: the note's own memories usually rank first
+  const found = await index.search(`${row.title}\n${row.content}`, RELATED_NOTES_LIMIT + memories.length + 1);
+  const related = (await resolveMemoryHits(repo, found)).filter(hit => hit.id !== row.id).slice(0, RELATED_NOTES_LIMIT);
+  return { memories, related };
+}
+
+async function getNote(ctx: ToolContext, id: string, source: NoteSource): Promise<ToolOutput> {
+  const { repo, index, sync, logger } = ctx;
+  // Checked first even for source "semantic": memories are looked up by note ID, whatever its vault
+  const row = await repo.getNote(id);
+  if (!row) {
+    throw new Error('Note not found');
+  }
+  const links = await repo.getNoteLinks(id);
+
+  if (source === 'semantic') {
+    // The note as the index remembers it, falling back to SQLite below
+    const memories = await sync.getNoteMemories(id);
+    if (memories !== null) {
+      const linksText = formatNoteLinks(links);
+      return { text: `Note: ${memories}${linksText ? `\n\n${linksText}` : ''}`, data: { id, content: memories, via: 'mem0', links } };
+    }
+  }
+
+  const note = {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    tags: parseTags(row.tags),
+    links,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    archived_at: row.archived_at
+  };
+  if (source !== 'both') {
+    return { text: formatNote(row, links), data: { ...note, via: 'sqlite' } };
+  }
+
+  try {
+    const { memories, related } = await semanticEnrichment(ctx, row);
+    const text = [
+      formatNote(row, links),
+      `Memories in ${index.name}:\n${memories.length ? memories.map(m => `- ${m}`).join('\n') : 'None (not indexed yet)'}`,
+      `Related notes:\n${formatMemoryHits(related)}`
+    ].join('\n\n');
+    return { text, data: { ...note, via: 'sqlite', semantic: { memories, related } } };
+  } catch (err: any) {
+    logger.warn(`${index.name} enrichment failed for ${id}: ${err.message}`);
+    return {
+      text: `${formatNote(row, links)}\n\n(${index.name} unavailable, showing the stored note only)`,
+      data: { ...note, via: 'sqlite', semantic: null }
+    };
+  }
+}
+
+/**
+ * Run a tool
+ * @param {ToolContext} ctx - Storage, semantic index and logger
+ * @param {string} name - Tool name from mcpToolsSchema
+ * @param {Record<string, any>} [args] - Tool arguments; `vault` runs the tool in another vault
+ * @returns {Promise<ToolOutput>}
+ * @throws {ToolInputError} If the arguments are invalid
+ * @throws {ToolPermissionError} If the caller's scopes do not allow the tool
+ * @throws {Error} 'Note not found' and similar (see isNotFoundError), or `Unknown tool: name`
+ */
+export async function executeTool(ctx: ToolContext, name: string, args: Record<string, any> = {}): Promise<ToolOutput> {
+  if (!canCallTool(ctx, name)) {
+    throw new ToolPermissionError(`${name} needs the ${toolScope(name)} scope`);
+  }
+  if (args.vault !== undefined) {
+    const { vault, ...rest } = args;
+    // The caller's scopes go along to the other vault's context
+    return executeTool({ ...await selectVault(ctx, vault), scopes: ctx.scopes }, name, rest);
+  }
+  const { repo, sync } = ctx;
+  const changed = (ids: string[], listChanged: boolean) =>
+    ctx.onNoteChange?.({ vault: repo.vault, ids, listChanged });
+  // A failed index operation is queued by sync; this catches what fails even so, e.g. the queue write
+  const inBackground = (work: Promise<unknown>) =>
+    work.catch(err => ctx.logger.error(`Background ${ctx.index.name} sync failed: ${err.message}`));
+
+  switch (name) {
+    case 'zk_create_note': {
+      const { title, content } = args;
+      if (typeof title !== 'string' || typeof content !== 'string') {
+        throw new ToolInputError('Invalid payload: title and content must be strings');
+      }
+      const tags = optionalStrings(args, 'tags');
+      const note = await repo.createNote({ id: uuidv4(), title, content, tags });
+      // Index in the background; queued for retry on failure
+      inBackground(sync.syncNote(note));
+      changed([note.id], true);
+      return {
+        text: `Created note "${title}" with ID: ${note.id}`,
+        data: { id: note.id, title, content, tags: tags || [], created_at: note.created_at, via: 'sqlite' }
+      };
+    }
+
+    case 'zk_get_note': {
+      const id = requireId(args);
+      const { source = 'local' } = args;
+      if (source !== 'local' && source !== 'semantic' && source !== 'both') {
+        throw new ToolInputError('Invalid source: must be "local", "semantic" or "both"');
+      }
+      return getNote(ctx, id, source);
+    }
+
+    case 'zk_search_notes': {
+      const { query, mode = 'semantic' } = args;
+      if (typeof query !== 'string') {
+        throw new ToolInputError('Invalid query: must be a string');
+      }
+      if (mode !== 'semantic' && mode !== 'fulltext' && mode !== 'hybrid') {
+        throw new ToolInputError('Invalid mode: must be "semantic", "fulltext" or "hybrid"');
+      }
+      return searchNotes(ctx, query, mode, validate(() => parseSearchFilters(args)));
+    }
+
+    case 'zk_create_link': {
+      const { from, to, type, note } = args;
+      if (!from || !to || !type) {
+        throw new ToolInputError('Missing fields: from, to, and type are required');
+      }
+      validate(() => resolveLinkType(type));
+      const { link, created } = await repo.createLink({ from, to, type, note, weight: optionalNumber(args, 'weight') });
+      if (created) {
+        // Index the relationship in the background; queued for retry on failure
+        inBackground(sync.syncLink(link));
+        changed([link.from_id, link.to_id], false);
+      }
+      const linkText = `${link.type} link from ${link.from_id} to ${link.to_id}`;
+      return {
+        text: created ? `Created ${linkText}` : `Link already exists: ${linkText}`,
+        data: { success: true, created, from: link.from_id, to: link.to_id, type: link.type, link }
+      };
+    }
+
+    case 'zk_update_note': {
+      const id = requireId(args);
+      const { title, content } = args;
+      if (title === undefined && content === undefined && args.tags === undefined) {
+        throw new ToolInputError('Nothing to update: provide title, content or tags');
+      }
+      if ((title !== undefined && typeof title !== 'string') ||
+          (content !== undefined && typeof content !== 'string')) {
+        throw new ToolInputError('Invalid payload: title and content must be strings');
+      }
+      const { note, revision } = await repo.updateNote(id, { title, content, tags: optionalStrings(args, 'tags') });
+      // Replace the stale memories in the background; queued for retry on failure
+      inBackground(sync.replaceNote(note));
+      changed([id], false);
+      return {
+        text: `Updated note "${note.title}" (ID: ${note.id}); previous version saved as revision ${revision}`,
+        data: {
+          id, title: note.title, content: note.content, tags: parseTags(note.tags),
+          updated_at: note.updated_at, revision, via: 'sqlite'
+        }
+      };
+    }
+
+    case 'zk_get_note_history': {
+      const id = requireId(args);
+      const fromRevision = optionalNumber(args, 'from_revision');
+      const toRevision = optionalNumber(args, 'to_revision');
+      const revisions = await repo.getNoteHistory(id);
+      if (!revisions.length) {
+        throw new Error('Note not found');
+      }
+      const to = revisions.find(r => r.revision === (toRevision ?? revisions.length));
+      const from = revisions.find(r => r.revision === (fromRevision ?? (to ? to.revision - 1 : 0)));
+      return {
+        text: formatNoteHistory(revisions, fromRevision, toRevision),
+        data: { id, revisions, diff: from && to ? diffRevisions(from, to) : null }
+      };
+    }
+
+    case 'zk_delete_note': {
+      const id = requireId(args);
+      const { mode = 'archive' } = args;
+      if (mode !== 'archive' && mode !== 'hard') {
+        throw new ToolInputError('Invalid mode: must be "archive" or "hard"');
+      }
+      if (mode === 'archive') {
+        const archived = await repo.archiveNote(id);
+        if (archived) changed([id], true);
+        return {
+          text: archived ? `Archived note ${id}` : `Note ${id} was already archived`,
+          data: { id, mode, changed: archived }
+        };
+      }
+      const deleted = await repo.deleteNote(id);
+      // Remove from the index in the background; queued for retry on failure
+      inBackground(sync.removeNote(id));
+      changed([id], true);
+      return {
+        text: `Permanently deleted note "${deleted.title}" (ID: ${id})`,
+        data: { id, mode, changed: true }
+      };
+    }
+
+    case 'zk_restore_note': {
+      const id = requireId(args);
+      const restored = await repo.restoreNote(id);
+      if (restored) changed([id], true);
+      return {
+        text: restored ? `Restored note ${id}` : `Note ${id} was not archived`,
+        data: { id, changed: restored }
+      };
+    }
+
+    case 'zk_get_neighbors': {
+      const id = requireId(args);
+      const { direction = 'both' } = args;
+      const types = optionalStrings(args, 'types');
+      if (!['outgoing', 'incoming', 'both'].includes(direction)) {
+        throw new ToolInputError('Invalid direction: must be "outgoing", "incoming" or "both"');
+      }
+      validate(() => canonicalLinkTypes(types));
+      const graph = await getNeighbors(repo, id, {
+        depth: optionalNumber(args, 'depth'),
+        types,
+        direction: direction as LinkDirection
+      });
+      return { text: formatSubgraph(graph), data: graph };
+    }
+
+    case 'zk_find_path': {
+      const { from, to } = args;
+      const types = optionalStrings(args, 'types');
+      if (!from || !to) {
+        throw new ToolInputError('Missing fields: from and to are required');
+      }
+      validate(() => canonicalLinkTypes(types));
+      const maxDepth = optionalNumber(args, 'max_depth') ?? DEFAULT_PATH_DEPTH;
+      const paths = await findPaths(repo, from, to, { maxDepth, limit: optionalNumber(args, 'limit'), types });
+      return { text: formatPaths(paths, from, to, maxDepth), data: { from, to, paths } };
+    }
+
+    case 'zk_reindex': {
+      const { index, logger } = ctx;
+      const options = validate(() => parseReindexOptions(args));
+      const report = await reindexNotes(repo, index, sync, {
+        ...options,
+        onProgress: ({ processed, total, pushed, failed }) =>
+          logger.info(`Reindex progress: ${processed}/${total} (pushed ${pushed}, queued ${failed})`)
+      });
+      return { text: formatReindexReport(report, index.name), data: report };
+    }
+
+    case 'zk_sync_status': {
+      const limit = optionalNumber(args, 'limit') ?? DEFAULT_SYNC_STATUS_LIMIT;
+      const status = await sync.status();
+      return {
+        text: formatSyncStatus(status, limit),
+        data: { pendingCount: status.pending.length, deadCount: status.dead.length, ...status }
+      };
+    }
+
+    case 'zk_list_vaults': {
+      const vaults = await repo.listVaults();
+      return { text: `Vaults (* current):\n${formatVaults(vaults, repo.vault)}`, data: { current: repo.vault, vaults } };
+    }
+
+    case 'zk_create_vault': {
+      const id = validate(() => parseVaultId(args.id));
+      const { name } = args;
+      if (name !== undefined && typeof name !== 'string') {
+        throw new ToolInputError('Invalid name: must be a string');
+      }
+      if (await repo.getVault(id)) {
+        throw new ToolInputError(`Vault already exists: ${id}`);
+      }
+      const vault = await repo.createVault({ id, name });
+      return { text: `Created vault "${vault.name}" with ID: ${vault.id}`, data: vault };
+    }
+
+    case 'zk_audit_query': {
+      if (!ctx.audit) {
+        throw new ToolInputError('The audit log is disabled (MCP_AUDIT_LOG=false)');
+      }
+      const page = await ctx.audit.query(validate(() => parseAuditQuery(args)));
+      return { text: `Audit log (newest first):\n${formatAuditPage(page)}`, data: page };
+    }
+
+    case 'zk_get_methodology':
+      return {
+        text: `Zettelkasten Methodology with Mem0\n\n${JSON.stringify(methodologyResponse, null, 2)}`,
+        data: methodologyResponse
+      };
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+/** MCP `tools/call` result: text for display plus the same result as JSON */
+export interface CallToolOutput {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent: Record<string, unknown>;
+}
+
+/**
+ * Run a tool call, recording it in the context's audit log (if any) with its
+ * status and duration. Refused calls are recorded as `denied`.
+ * @template T
+ * @param {ToolContext} ctx - Tool context of the call
+ * @param {AuditCaller} caller - Transport, client and remote address
+ * @param {string} name - Tool name
+ * @param {Record<string, any>} args - Tool arguments as received
+ * @param {() => Promise<T>} run - Runs the tool
+ * @returns {Promise<T>} Result of `run`
+ */
+export async function auditToolCall<T>(
+  ctx: ToolContext, caller: AuditCaller, name: string, args: Record<string, any>, run: () => Promise<T>
+): Promise<T> {
+  if (!ctx.audit) {
+    return run();
+  }
+  const started = Date.now();
+  const entry = {
+    ...caller,
+    apiKeyId: ctx.apiKeyId,
+    vault: typeof args.vault === 'string' ? args.vault : ctx.repo.vault,
+    tool: name,
+    args
+  };
+  try {
+    const result = await run();
+    await ctx.audit.record({ ...entry, status: 'ok', durationMs: Date.now() - started });
+    return result;
+  } catch (err: any) {
+    await ctx.audit.record({
+      ...entry,
+      status: err instanceof ToolPermissionError ? 'denied' : 'error',
+      error: err.message,
+      durationMs: Date.now() - started
+    });
+    throw err;
+  }
+}
+
+/**
+ * Run a tool and wrap its result in an MCP `tools/call` result
+ * @param {ToolContext} ctx - Storage, semantic index and logger
+ * @param {string} name - Tool name
+ * @param {Record<string, any>} [args] - Tool arguments
+ * @returns {Promise<CallToolOutput>}
+ */
+export async function callTool(ctx: ToolContext, name: string, args: Record<string, any> = {}): Promise<CallToolOutput> {
+  const { text, data } = await executeTool(ctx, name, args);
+  // Round-trip through JSON so structured content is exactly what a REST client would receive
+  return { content: [{ type: 'text', text }], structuredContent: JSON.parse(JSON.stringify(data)) };
+}
@@ -2,16 +2,45 @@
  * Shared types for MCP Zettelkasten servers
  */
 
+import sqlite3 from 'sqlite3';
+import { Database } from 'sqlite';
+
+/**
+ * SQLite handle used by both servers
+ */
+export type NotesDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
 export interface MCPConfig {
   mem0ApiKey?: string;
   openaiApiKey?: string;
   mem0SimpleMode?: boolean;
+  /** Offline embeddings and a local vector index instead of Mem0 */
+  localMode?: boolean;
   userId?: string;
+  /** Vault used when a request selects none (MCP_VAULT) */
+  vault?: string;
   port?: number;
   storageDir?: string;
   mem0TimeoutMs?: number;
+  /** Consecutive Mem0 failures that open the circuit breaker */
+  mem0BreakerThreshold?: number;
+  /** How long the breaker stays open before a trial call (ms) */
+  mem0BreakerCooldownMs?: number;
   rateLimitWindowMs?: number;
+  /** Requests per window for API keys without their own limit */
   rateLimitMax?: number;
+  /** Refuse HTTP requests without an API key (MCP_AUTH_REQUIRED) */
+  authRequired?: boolean;
+  /** Origins allowed by CORS (MCP_CORS_ORIGINS); `*` allows any */
+  corsOrigins?: string[];
+  /** Record tool calls in the audit log (MCP_AUDIT_LOG) */
+  auditLog?: boolean;
+  /** Argument names whose values the audit log does not store (MCP_AUDIT_REDACT) */
+  auditRedact?: string[];
+  /** Interval of keepalive comments on MCP streams (ms), 0 to disable */
+  keepaliveMs?: number;
+  /** Idle time after which an MCP HTTP session is closed (ms) */
+  sessionIdleMs?: number;
 }
 
 export interface NoteResult {
@@ -32,4 +61,69 @@ export interface LinkData {
   from: string;
   to: string;
   type: string;
-} 
\ No newline at end of file
+}
+
+/**
+ * Raw row of the `notes` table
+ */
+export interface NoteRow {
+  id: string;
+  /** Vault the note belongs to */
+  vault_id: string;
+  title: string;
+  content: string;
+  tags: string | null;
+  /** Legacy JSON links, emptied by migration 4 in favour of the `links` table */
+  links: string | null;
+  created_at: string;
+  updated_at: string | null;
+  archived_at: string | null;
+}
+
+/**
+ * Prior state of a note, stored in `note_revisions` before every update
+ */
+export interface NoteRevision {
+  revision: number;
+  title: string;
+  content: string;
+  tags: string[];
+  created_at: string;
+}
+
+export interface NewNote {
+  id: string;
+  title: string;
+  content: string;
+  tags?: string[];
+}
+
+export interface NoteUpdate {
+  title?: string;
+  content?: string;
+  tags?: string[];
+}
+
+/**
+ * Row of the `links` table. A link is stored once, in the direction it was created.
+ */
+export interface NoteLink {
+  from_id: string;
+  to_id: string;
+  type: string;
+  note: string | null;
+  weight: number | null;
+  /** Vault of both notes */
+  vault_id: string;
+  created_at: string;
+}
+
+/**
+ * Link as seen from one of its notes, with the title of the note on the other end
+ */
+export interface LinkedNote extends NoteLink {
+  direction: 'outgoing' | 'incoming';
+  other_id: string;
+  other_title: string;
+}
+
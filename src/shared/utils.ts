@@ -6,17 +6,47 @@ import path from 'path';
 import os from 'os';
 
 /**
- * Wrap a promise with a timeout.
+ * Rejection of withTimeout, also the abort reason passed to the work
+ */
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timeout after ${ms}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Run async work with a timeout. On timeout the work's signal is aborted, so
+ * work that honours it stops; the timer is cleared as soon as the work settles.
  * @template T
- * @param {Promise<T>} promise - The promise to wrap.
+ * @param {(signal: AbortSignal) => Promise<T>} work - The work to run, given the signal to abort it.
  * @param {number} ms - Timeout in milliseconds.
- * @returns {Promise<T>} A promise that rejects on timeout.
+ * @param {(result: T) => void} [onLate] - Called with the result if the work succeeds after the timeout,
+ *   e.g. to undo a write the caller already treats as failed.
+ * @returns {Promise<T>} A promise that rejects with TimeoutError on timeout.
  */
-export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  const timeout = new Promise<never>((_, reject) => 
-    setTimeout(() => reject(new Error('Timeout')), ms)
-  );
-  return Promise.race([promise, timeout]);
+export function withTimeout<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  onLate?: (result: T) => void
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+  const running = work(controller.signal);
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      const err = new TimeoutError(ms);
+      controller.abort(err);
+      reject(err);
+    }, ms);
+  });
+  running.then(
+    result => { if (timedOut) onLate?.(result); },
+    () => undefined
+  ).finally(() => clearTimeout(timer));
+  return Promise.race([running, timeout]);
 }
 
 /**
@@ -35,6 +65,42 @@ export function normalizeSearchResults(results: any): any[] {
   return [];
 }
 
+/**
+ * Note ID a Mem0 memory was produced from: taken from its metadata, or from the
+ * `[id]` prefix used by simple-mode payloads
+ * @param {any} memory - Mem0 search or getAll result
+ * @returns {string | undefined} Note ID, if it can be determined
+ */
+export function noteIdOfMemory(memory: any): string | undefined {
+  return memory?.metadata?.noteId ?? /^\[([0-9a-f-]{36})\]/i.exec(String(memory?.memory ?? ''))?.[1];
+}
+
+/**
+ * Format a date like SQLite's CURRENT_TIMESTAMP, so values compare as strings
+ * @param {Date} [date] - Date to format (default now)
+ * @returns {string} `YYYY-MM-DD HH:MM:SS` in UTC
+ */
+export function sqliteTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Parse an optional ISO 8601 argument into a SQLite timestamp
+ * @param {unknown} value - Raw argument value
+ * @param {string} name - Argument name, used in the error message
+ * @returns {string | undefined} `YYYY-MM-DD HH:MM:SS` in UTC, or undefined when the value is empty
+ */
+export function toTimestamp(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${name}: must be an ISO 8601 date`);
+  }
+  return sqliteTimestamp(new Date(time));
+}
+
 /**
  * Helper function to expand ~ to home directory
  * @param {string} filePath - Path that might contain ~
@@ -55,21 +121,68 @@ export function getDefaultStorageDir(): string {
   return path.join(os.homedir(), '.mcp-servers', 'mcp-zettelkasten-notes-mem0');
 }
 
+/** Largest LCS table diffLines builds (cells); bigger changes are shown as a block replacement */
+export const MAX_DIFF_CELLS = 1000 * 1000;
+
 /**
- * Format search results for display
- * @param {any[]} results - Normalized search results
- * @param {boolean} mem0SimpleMode - Whether using simple mode
- * @returns {string} Formatted results string
+ * Line-based diff of two texts using the longest common subsequence. Lines
+ * shared at the start and end are matched first; if the changed middle would
+ * still need more than MAX_DIFF_CELLS table cells, it is shown as all of its
+ * old lines removed and all of its new lines added.
+ * @param {string} before - Original text
+ * @param {string} after - Updated text
+ * @returns {string} Lines prefixed with '-', '+' or ' '
  */
-export function formatSearchResults(results: any[], mem0SimpleMode: boolean): string {
-  if (results.length === 0) {
-    return 'No results found';
+export function diffLines(before: string, after: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const out = a.slice(0, start).map(line => `  ${line}`);
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+  if ((oldLines.length + 1) * (newLines.length + 1) > MAX_DIFF_CELLS) {
+    out.push(...oldLines.map(line => `- ${line}`), ...newLines.map(line => `+ ${line}`));
+  } else {
+    out.push(...diffMiddle(oldLines, newLines));
   }
-  
-  return results.map((m: any) => {
-    const content = mem0SimpleMode 
-      ? (m.content || m.memory || String(m))
-      : m.memory;
-    return `ID: ${m.id || 'unknown'}\nContent: ${content}`;
-  }).join('\n\n');
-} 
\ No newline at end of file
+  out.push(...a.slice(endA).map(line => `  ${line}`));
+  return out.join('\n');
+}
+
+/** LCS diff of two line lists, in a flat table of (n+1)×(m+1) cells */
+function diffMiddle(a: string[], b: string[]): string[] {
+  const width = b.length + 1;
+  // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push(`  ${a[i++]}`);
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      out.push(`- ${a[i++]}`);
+    } else {
+      out.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) out.push(`- ${a[i++]}`);
+  while (j < b.length) out.push(`+ ${b[j++]}`);
+  return out;
+}
+
@@ -0,0 +1,195 @@
+/**
+ * Vaults: separate note collections in one database
+ *
+ * Every note, link and queued index operation belongs to a vault, and a
+ * NoteRepository only sees the vault it was scoped to. Each vault is indexed
+ * on its own as well: under its own Mem0 user ID, or as its own rows in the
+ * local index. Notes created before vaults existed are in `default`, which
+ * keeps MCP_USER_ID as its Mem0 user so their memories stay where they are.
+ */
+
+import { NotesDatabase } from './types.js';
+import type { NoteRepository } from './repository.js';
+import type { ToolContext } from './tools.js';
+
+export const DEFAULT_VAULT = 'default';
+
+/** Request header selecting the vault of a REST call or MCP session */
+export const VAULT_HEADER = 'x-zk-vault';
+
+export interface Vault {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface VaultSummary extends Vault {
+  /** Active (non-archived) notes */
+  notes: number;
+}
+
+export interface NewVault {
+  id: string;
+  /** Display name; defaults to the ID */
+  name?: string;
+}
+
+/**
+ * Validate a vault ID: 1-64 letters, digits, `_` or `-`, starting with a letter or digit.
+ * IDs end up in Mem0 user IDs and URLs, so nothing else is allowed.
+ * @param {unknown} value - Requested vault ID
+ * @returns {string}
+ * @throws {Error} If the ID is invalid
+ */
+export function parseVaultId(value: unknown): string {
+  if (typeof value !== 'string' || !/^[a-z0-9][a-z0-9_-]{0,63}$/i.test(value)) {
+    throw new Error('Invalid vault: use 1-64 letters, digits, "_" or "-", starting with a letter or digit');
+  }
+  return value;
+}
+
+/**
+ * Mem0 user ID holding a vault's memories
+ * @param {string} userId - MCP_USER_ID
+ * @param {string} vault - Vault ID
+ * @returns {string} `userId` for the default vault, `userId:vault` otherwise
+ */
+export function mem0UserIdForVault(userId: string, vault: string): string {
+  return vault === DEFAULT_VAULT ? userId : `${userId}:${vault}`;
+}
+
+/**
+ * Every vault with its number of active notes, default first, then by ID
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @returns {Promise<VaultSummary[]>}
+ */
+export async function listVaults(db: NotesDatabase): Promise<VaultSummary[]> {
+  return db.all<VaultSummary[]>(
+    `SELECT v.id, v.name, v.created_at,
+       (SELECT COUNT(*) FROM notes n WHERE n.vault_id = v.id AND n.archived_at IS NULL) AS notes
+     FROM vaults v
+     ORDER BY v.id != ?, v.id`,
+    DEFAULT_VAULT
+  );
+}
+
+/**
+ * Fetch a vault by ID
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {string} id - Vault ID
+ * @returns {Promise<Vault | undefined>}
+ */
+export async function getVault(db: NotesDatabase, id: string): Promise<Vault | undefined> {
+  return db.get<Vault>('SELECT id, name, created_at FROM vaults WHERE id = ?', id);
+}
+
+/**
+ * Create an empty vault
+ * @param {NotesDatabase} db - Open SQLite handle
+ * @param {NewVault} vault - ID and optional name
+ * @returns {Promise<Vault>} The stored vault
+ * @throws {Error} `Vault already exists: id`
+ */
+export async function createVault(db: NotesDatabase, vault: NewVault): Promise<Vault> {
+  const result = await db.run(
+    'INSERT OR IGNORE INTO vaults (id, name) VALUES (?, ?)',
+    vault.id, vault.name || vault.id
+  );
+  if (!result.changes) {
+    throw new Error(`Vault already exists: ${vault.id}`);
+  }
+  return (await getVault(db, vault.id))!;
+}
+
+/**
+ * Format vaults for a text tool response
+ * @param {VaultSummary[]} vaults - Output of listVaults
+ * @param {string} current - Vault the call ran in
+ * @returns {string}
+ */
+export function formatVaults(vaults: VaultSummary[], current: string): string {
+  return vaults.map(vault => [
+    `${vault.id === current ? '* ' : '- '}${vault.id}`,
+    vault.name !== vault.id ? ` (${vault.name})` : '',
+    `: ${vault.notes} note${vault.notes === 1 ? '' : 's'}, created ${vault.created_at}`
+  ].join('')).join('\n');
+}
+
+/**
+ * Tool contexts per vault, built on first use and kept for the life of the
+ * process, so each vault has one semantic index and one retry queue
+ */
+export class VaultContexts {
+  private readonly contexts = new Map<string, ToolContext>();
+  private flushing = false;
+
+  /**
+   * @param {NoteRepository} repo - Storage, in any vault
+   * @param {(repo: NoteRepository) => Omit<ToolContext, 'vaults'>} build - Index, sync and logger for a vault's repository
+   */
+  constructor(
+    private readonly repo: NoteRepository,
+    private readonly build: (repo: NoteRepository) => Omit<ToolContext, 'vaults'>
+  ) {}
+
+  /**
+   * Tool context of an existing vault
+   * @param {string} id - Vault ID
+   * @returns {Promise<ToolContext>}
+   * @throws {Error} 'Vault not found'
+   */
+  async get(id: string): Promise<ToolContext> {
+    if (!this.contexts.has(id)) {
+      if (!(await this.repo.getVault(id))) {
+        throw new Error('Vault not found');
+      }
+      // Another call may have built it while the lookup ran
+      if (!this.contexts.has(id)) {
+        this.contexts.set(id, { ...this.build(this.repo.forVault(id)), vaults: this });
+      }
+    }
+    return this.contexts.get(id)!;
+  }
+
+  /**
+   * Tool context of a vault, creating the vault if it does not exist yet
+   * @param {string} id - Vault ID
+   * @returns {Promise<ToolContext>}
+   */
+  async ensure(id: string): Promise<ToolContext> {
+    if (!(await this.repo.getVault(id))) {
+      await this.repo.createVault({ id });
+    }
+    return this.get(id);
+  }
+
+  /**
+   * Tool contexts of every vault, e.g. to re-index them all at startup
+   * @returns {Promise<ToolContext[]>}
+   */
+  async all(): Promise<ToolContext[]> {
+    const contexts: ToolContext[] = [];
+    for (const vault of await this.repo.listVaults()) {
+      contexts.push(await this.get(vault.id));
+    }
+    return contexts;
+  }
+
+  /**
+   * Retry the due index operations of every vault. Returns at once while an
+   * earlier flush is still running, which would otherwise retry the same
+   * entries a second time.
+   * @returns {Promise<void>}
+   */
+  async flushQueues(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+    try {
+      for (const ctx of await this.all()) {
+        await ctx.sync.flushQueue();
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+}